@@ -1,13 +1,21 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { OktaClient } from "@okta-mcp/core";
+import {
+  OktaClient,
+  ClientPool,
+  installDryRun,
+  installOrgRouting,
+  installToolErrorHandling,
+  installToolPolicy,
+} from "@okta-mcp/core";
 import { registerRoleTools } from "./tools/roles.js";
 import { registerSystemLogTools } from "./tools/system-log.js";
 import { registerDeviceTools } from "./tools/devices.js";
 import { registerEventHookTools } from "./tools/event-hooks.js";
+import { registerRateLimitTools } from "./tools/rate-limits.js";
 
-const client = new OktaClient({
+const clients = new ClientPool((options) => new OktaClient(options), {
   requiredScopes: [
     "okta.roles.read",
     "okta.roles.manage",
@@ -18,15 +26,21 @@ const client = new OktaClient({
     "okta.eventHooks.manage",
   ],
 });
+const client = clients.routed();
 const server = new McpServer({
   name: "okta-mcp-admin",
   version: "0.1.0",
 });
+installToolPolicy(server);
+installToolErrorHandling(server);
+installOrgRouting(server, clients);
+installDryRun(server);
 
 registerRoleTools(server, client);
 registerSystemLogTools(server, client);
 registerDeviceTools(server, client);
 registerEventHookTools(server, client);
+registerRateLimitTools(server, client);
 
 const transport = new StdioServerTransport();
 await server.connect(transport);
@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { OktaClient } from "@okta-mcp/core";
+import { OktaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 export function registerDeviceTools(server: McpServer, client: OktaClient) {
   server.tool(
@@ -23,13 +23,17 @@ export function registerDeviceTools(server: McpServer, client: OktaClient) {
         .string()
         .optional()
         .describe("Pagination cursor from the previous response to fetch the next page"),
+      ...paginationShape,
     },
-    async ({ search, limit, after }) => {
-      const resp = await client.get("/devices", {
-        params: { search, limit, after },
-      });
+    async ({ search, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/devices",
+        { search, limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
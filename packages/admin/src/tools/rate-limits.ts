@@ -0,0 +1,19 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { OktaClient } from "@okta-mcp/core";
+
+export function registerRateLimitTools(server: McpServer, client: OktaClient) {
+  server.tool(
+    "okta_get_rate_limit_status",
+    "Show the current Okta rate-limit buckets observed by this server, per endpoint family (/users, /logs, /apps, …). Each bucket reports the limit, remaining requests and reset time from the most recent X-Rate-Limit headers, plus the reserve percentage the server holds back for human admins. Use this before bulk operations to judge how much headroom is left.",
+    {},
+    async () => {
+      const status = {
+        reservePercent: client.governor.reservePercent,
+        buckets: client.governor.snapshot(),
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(status, null, 2) }],
+      };
+    }
+  );
+}
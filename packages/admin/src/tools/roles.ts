@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { OktaClient } from "@okta-mcp/core";
+import { OktaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 const adminRoleTypeEnum = z.enum([
   "SUPER_ADMIN",
@@ -30,13 +30,17 @@ export function registerRoleTools(server: McpServer, client: OktaClient) {
         .string()
         .optional()
         .describe("Pagination cursor from the previous response to fetch the next page"),
+      ...paginationShape,
     },
-    async ({ limit, after }) => {
-      const resp = await client.get("/iam/roles", {
-        params: { limit, after },
-      });
+    async ({ limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/iam/roles",
+        { limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
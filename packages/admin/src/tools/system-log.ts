@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { OktaClient } from "@okta-mcp/core";
+import { OktaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 export function registerSystemLogTools(server: McpServer, client: OktaClient) {
   server.tool(
@@ -45,15 +45,19 @@ export function registerSystemLogTools(server: McpServer, client: OktaClient) {
         .string()
         .optional()
         .describe(
-          "Pagination cursor from the Link header of a previous response. Use to fetch the next page of results."
+          "Pagination cursor (nextCursor) from a previous response. Use to fetch the next page of results."
         ),
+      ...paginationShape,
     },
-    async ({ since, until, filter, q, limit, sortOrder, after }) => {
-      const resp = await client.get("/logs", {
-        params: { since, until, filter, q, limit, sortOrder, after },
-      });
+    async ({ since, until, filter, q, limit, sortOrder, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/logs",
+        { since, until, filter, q, limit, sortOrder, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
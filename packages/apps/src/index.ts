@@ -1,13 +1,20 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { OktaClient } from "@okta-mcp/core";
+import {
+  OktaClient,
+  ClientPool,
+  installDryRun,
+  installOrgRouting,
+  installToolErrorHandling,
+  installToolPolicy,
+} from "@okta-mcp/core";
 import { registerAppManagementTools } from "./tools/app-management.js";
 import { registerAppUserTools } from "./tools/app-users.js";
 import { registerAppGroupTools } from "./tools/app-groups.js";
 import { registerAppCredentialTools } from "./tools/app-credentials.js";
 
-const client = new OktaClient({
+const clients = new ClientPool((options) => new OktaClient(options), {
   requiredScopes: [
     "okta.apps.read",
     "okta.apps.manage",
@@ -16,10 +23,15 @@ const client = new OktaClient({
     "okta.groups.manage",
   ],
 });
+const client = clients.routed();
 const server = new McpServer({
   name: "okta-mcp-apps",
   version: "0.1.0",
 });
+installToolPolicy(server);
+installToolErrorHandling(server);
+installOrgRouting(server, clients);
+installDryRun(server);
 
 registerAppManagementTools(server, client);
 registerAppUserTools(server, client);
@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { OktaClient } from "@okta-mcp/core";
+import { OktaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 const signOnModeEnum = z.enum([
   "SAML_2_0",
@@ -41,13 +41,17 @@ export function registerAppManagementTools(server: McpServer, client: OktaClient
         .string()
         .optional()
         .describe("Pagination cursor from the previous response to fetch the next page of results"),
+      ...paginationShape,
     },
-    async ({ q, filter, limit, after }) => {
-      const resp = await client.get("/apps", {
-        params: { q, filter, limit, after },
-      });
+    async ({ q, filter, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/apps",
+        { q, filter, limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { OktaClient } from "@okta-mcp/core";
+import { OktaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 export function registerAppUserTools(server: McpServer, client: OktaClient) {
   server.tool(
@@ -18,13 +18,17 @@ export function registerAppUserTools(server: McpServer, client: OktaClient) {
         .string()
         .optional()
         .describe("Pagination cursor from the previous response to fetch the next page of results"),
+      ...paginationShape,
     },
-    async ({ appId, limit, after }) => {
-      const resp = await client.get(`/apps/${appId}/users`, {
-        params: { limit, after },
-      });
+    async ({ appId, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        `/apps/${appId}/users`,
+        { limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
@@ -0,0 +1,114 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * Local audit journal of write requests.
+ *
+ * Okta's System Log records the service app as the actor of every change
+ * made through these servers, but not which MCP tool call made it. The
+ * client therefore appends one NDJSON line per non-GET request to a local
+ * journal, keyed by tool name and org, with secrets redacted.
+ *
+ * The journal is written to OKTA_AUDIT_LOG, default
+ * `~/.okta-mcp/audit.ndjson`. Set OKTA_AUDIT_LOG=off to disable it.
+ */
+
+/** One line of the audit journal. */
+export interface AuditEntry {
+  /** ISO-8601 time the response (or failure) was received */
+  timestamp: string;
+  /** MCP tool that made the request, if called from a tool */
+  tool?: string;
+  /** Org profile name ("default" in single-org mode) */
+  org: string;
+  orgUrl: string;
+  method: string;
+  /** Full API path, e.g. /api/v1/users/00u1/lifecycle/suspend */
+  path: string;
+  params?: Record<string, unknown>;
+  /** Request body with passwords and secrets replaced by "[REDACTED]" */
+  body?: unknown;
+  /** HTTP status, absent when no response was received */
+  status?: number;
+  /** Okta error code and ID from the error body, if the request failed */
+  errorCode?: string;
+  errorId?: string;
+  /** Value of the X-Okta-Request-Id response header */
+  requestId?: string;
+  /** Error message when the request failed without an Okta error body */
+  error?: string;
+}
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Body keys whose scalar values are always redacted, wherever they
+ * appear: passwords, recovery answers, client secrets, private keys and
+ * tokens.
+ */
+const SECRET_KEY_PATTERN =
+  /^(password|passcode|answer|secret|client_secret|sharedSecret|privateKey|private_key|apiToken|accessToken|refreshToken)$/i;
+
+/**
+ * Keys whose `value` field is a credential: `credentials.password.value`,
+ * imported password hashes and hook `authScheme.value`. Also hook
+ * `headers[].value`, which often carry API keys.
+ */
+const SECRET_VALUE_PARENTS = new Set(["password", "hash", "authScheme", "headers"]);
+
+let cachedPath: string | null | undefined;
+
+/** Path of the audit journal, or null when disabled. */
+export function auditLogPath(): string | null {
+  if (cachedPath !== undefined) return cachedPath;
+  const configured = process.env.OKTA_AUDIT_LOG;
+  if (configured && ["off", "false", "none"].includes(configured.toLowerCase())) {
+    cachedPath = null;
+  } else {
+    cachedPath = configured || path.join(os.homedir(), ".okta-mcp", "audit.ndjson");
+  }
+  return cachedPath;
+}
+
+/**
+ * Appends `entry` to the journal. Failures to write are reported on
+ * stderr but never fail the tool call: the change has already been made
+ * in Okta by the time it is journaled.
+ */
+export function writeAuditEntry(entry: AuditEntry): void {
+  const file = auditLogPath();
+  if (!file) return;
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, JSON.stringify(entry) + "\n", { mode: 0o600 });
+  } catch (err: unknown) {
+    process.stderr.write(
+      `[okta-mcp] Could not write audit journal ${file}: ${err instanceof Error ? err.message : String(err)}\n`,
+    );
+  }
+}
+
+/**
+ * Returns a copy of a request body with secrets replaced by "[REDACTED]".
+ * `value` fields are only redacted under a password, auth scheme or
+ * header list, so ordinary values like profile attributes stay readable.
+ */
+export function redactBody(body: unknown, parentKey?: string): unknown {
+  if (Array.isArray(body)) {
+    return body.map((item) => redactBody(item, parentKey));
+  }
+  if (typeof body !== "object" || body === null) {
+    return body;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    const isSecret =
+      key === "value"
+        ? parentKey !== undefined && SECRET_VALUE_PARENTS.has(parentKey)
+        : SECRET_KEY_PATTERN.test(key) && (typeof value !== "object" || value === null);
+    redacted[key] = isSecret ? REDACTED : redactBody(value, key);
+  }
+  return redacted;
+}
@@ -0,0 +1,113 @@
+import type { InternalAxiosRequestConfig } from "axios";
+import { OAuthTokenProvider, type OAuthConfig } from "./oauth.js";
+
+/**
+ * Pluggable authentication for the Okta HTTP clients.
+ *
+ * A strategy is invoked from the client's request interceptor and is
+ * responsible for attaching whatever credentials the request needs —
+ * usually an `Authorization` header.
+ */
+export interface AuthStrategy {
+  /** Short human-readable description, logged once when a client is created. */
+  describe(): string;
+  /** Attach credentials to an outgoing request. */
+  authorize(config: InternalAxiosRequestConfig): Promise<void> | void;
+}
+
+/**
+ * SSWS API token authentication (legacy).
+ *
+ * Token permissions are inherited from the admin who created it, so
+ * scopes do not apply.
+ */
+export class SswsAuth implements AuthStrategy {
+  constructor(private readonly apiToken: string) {}
+
+  describe(): string {
+    return "SSWS API token";
+  }
+
+  authorize(config: InternalAxiosRequestConfig): void {
+    config.headers.Authorization = `SSWS ${this.apiToken}`;
+  }
+}
+
+/**
+ * OAuth 2.0 service-app authentication (client_credentials with a
+ * private_key_jwt assertion). Tokens are cached and refreshed by
+ * {@link OAuthTokenProvider}.
+ */
+export class OAuthAuth implements AuthStrategy {
+  private readonly tokenProvider: OAuthTokenProvider;
+
+  constructor(private readonly config: OAuthConfig) {
+    this.tokenProvider = new OAuthTokenProvider(config);
+  }
+
+  describe(): string {
+    return `OAuth 2.0 (client_id=${this.config.clientId}, scopes=${this.config.scopes.join(" ")})`;
+  }
+
+  async authorize(config: InternalAxiosRequestConfig): Promise<void> {
+    const token = await this.tokenProvider.getAccessToken();
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+}
+
+/**
+ * OAuth 2.0 service-app authentication with DPoP-bound access tokens
+ * (RFC 9449). Every request carries an `Authorization: DPoP <token>`
+ * header plus a fresh DPoP proof bound to the method, URL and token.
+ */
+export class DpopAuth implements AuthStrategy {
+  private readonly tokenProvider: OAuthTokenProvider;
+
+  constructor(private readonly config: Omit<OAuthConfig, "dpop">) {
+    this.tokenProvider = new OAuthTokenProvider({ ...config, dpop: true });
+  }
+
+  describe(): string {
+    return `OAuth 2.0 + DPoP (client_id=${this.config.clientId}, scopes=${this.config.scopes.join(" ")})`;
+  }
+
+  async authorize(config: InternalAxiosRequestConfig): Promise<void> {
+    const token = await this.tokenProvider.getAccessToken();
+    const htu = requestUrl(config);
+    config.headers.Authorization = `DPoP ${token}`;
+    config.headers.DPoP = this.tokenProvider.createDpopProof(
+      config.method ?? "GET",
+      htu,
+      { accessToken: token },
+    );
+  }
+}
+
+/**
+ * A fixed Bearer token. Intended for tests and local tooling where a
+ * token has already been obtained out of band.
+ */
+export class StaticTokenAuth implements AuthStrategy {
+  constructor(private readonly token: string) {}
+
+  describe(): string {
+    return "static Bearer token";
+  }
+
+  authorize(config: InternalAxiosRequestConfig): void {
+    config.headers.Authorization = `Bearer ${this.token}`;
+  }
+}
+
+/**
+ * Absolute request URL without query string or fragment — the `htu`
+ * value a DPoP proof must carry.
+ */
+function requestUrl(config: InternalAxiosRequestConfig): string {
+  const url = config.url ?? "";
+  const absolute = /^https?:\/\//i.test(url)
+    ? url
+    : `${(config.baseURL ?? "").replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+  const parsed = new URL(absolute);
+  return `${parsed.origin}${parsed.pathname}`;
+}
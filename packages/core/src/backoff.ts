@@ -1,52 +1,200 @@
-import type { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from "axios";
+import axios, { type AxiosInstance, type AxiosError, type InternalAxiosRequestConfig } from "axios";
 
-const MAX_RETRIES = 3;
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /**
+     * Mark a non-idempotent request (e.g. POST) as safe to replay on
+     * transient failures. GET, PUT and DELETE are retried without it.
+     */
+    retrySafe?: boolean;
+  }
+}
+
+/** Maximum number of retries for HTTP 429, independent of the retry policy. */
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+/**
+ * Retry policy for transient failures: 5xx gateway errors and network
+ * errors such as ECONNRESET / ETIMEDOUT.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (default 4) */
+  maxAttempts: number;
+  /** Base delay for exponential backoff, in ms (default 500) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, in ms (default 10 000) */
+  maxDelayMs: number;
+  /** Give up once this much time has passed since the first attempt, in ms (default 30 000) */
+  totalBudgetMs: number;
+  /** HTTP statuses treated as transient (default 502, 503, 504) */
+  retryStatuses: number[];
+  /** Network error codes treated as transient */
+  retryErrorCodes: string[];
+  /** Methods retried without an explicit `retrySafe` flag */
+  idempotentMethods: string[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  totalBudgetMs: 30_000,
+  retryStatuses: [502, 503, 504],
+  retryErrorCodes: ["ECONNRESET", "ETIMEDOUT", "ECONNABORTED", "ECONNREFUSED", "EAI_AGAIN", "EPIPE"],
+  idempotentMethods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+};
+
+/** Retry history attached to errors once retries are exhausted. */
+export interface RetryInfo {
+  /** Number of attempts made, including the first */
+  attempts: number;
+  /** Time from the first attempt to the final failure, in ms */
+  elapsedMs: number;
+  /** One entry per failed attempt, e.g. "503" or "ECONNRESET" */
+  failures: string[];
+}
 
 interface RetryConfig extends InternalAxiosRequestConfig {
-  _retryCount?: number;
+  _retry?: {
+    startedAt: number;
+    attempts: number;
+    rateLimitRetries: number;
+    failures: string[];
+  };
+}
+
+/**
+ * Builds a retry policy from defaults, OKTA_RETRY_MAX_ATTEMPTS /
+ * OKTA_RETRY_BUDGET_MS, and explicit overrides (in that order).
+ */
+export function resolveRetryPolicy(overrides?: Partial<RetryPolicy>): RetryPolicy {
+  const env: Partial<RetryPolicy> = {};
+  const maxAttempts = Number(process.env.OKTA_RETRY_MAX_ATTEMPTS);
+  if (process.env.OKTA_RETRY_MAX_ATTEMPTS && Number.isInteger(maxAttempts) && maxAttempts >= 1) {
+    env.maxAttempts = maxAttempts;
+  }
+  const budget = Number(process.env.OKTA_RETRY_BUDGET_MS);
+  if (process.env.OKTA_RETRY_BUDGET_MS && Number.isFinite(budget) && budget >= 0) {
+    env.totalBudgetMs = budget;
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...env, ...overrides };
+}
+
+/**
+ * Returns the retry history recorded on a failed request, or undefined
+ * if the request was never retried.
+ */
+export function getRetryInfo(error: unknown): RetryInfo | undefined {
+  if (!axios.isAxiosError(error)) return undefined;
+  const state = (error.config as RetryConfig | undefined)?._retry;
+  if (!state || state.attempts <= 1) return undefined;
+  return {
+    attempts: state.attempts,
+    elapsedMs: Date.now() - state.startedAt,
+    failures: [...state.failures],
+  };
 }
 
 /**
- * Attaches a 429 rate-limit retry interceptor to an Axios instance.
+ * Attaches the retry interceptor to an Axios instance.
  *
- * When the Okta API returns HTTP 429, the interceptor reads the
- * `Retry-After` header (value in seconds), waits that duration,
- * and replays the request — up to MAX_RETRIES times.
+ * - **HTTP 429**: reads the `Retry-After` header (seconds), waits that
+ *   long and replays the request — up to MAX_RATE_LIMIT_RETRIES times,
+ *   for any method, since Okta did not process the request.
+ * - **Transient failures** (502/503/504, ECONNRESET, ETIMEDOUT, …):
+ *   retried with exponential backoff and full jitter, within the
+ *   policy's attempt limit and total time budget. Only idempotent
+ *   methods are retried unless the request sets `retrySafe`.
  */
-export function attachRetryInterceptor(instance: AxiosInstance): void {
+export function attachRetryInterceptor(
+  instance: AxiosInstance,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): void {
+  instance.interceptors.request.use((config: RetryConfig) => {
+    config._retry ??= { startedAt: Date.now(), attempts: 0, rateLimitRetries: 0, failures: [] };
+    config._retry.attempts++;
+    return config;
+  });
+
   instance.interceptors.response.use(undefined, async (error: AxiosError) => {
     const config = error.config as RetryConfig | undefined;
-    if (!config) {
+    if (!config?._retry) {
       return Promise.reject(error);
     }
+    const state = config._retry;
+    const status = error.response?.status;
+    state.failures.push(status !== undefined ? String(status) : (error.code ?? "network error"));
+
+    // ── 429: honour Retry-After ──────────────────────────────────
+    if (status === 429) {
+      if (state.rateLimitRetries >= MAX_RATE_LIMIT_RETRIES) {
+        return Promise.reject(error);
+      }
+      state.rateLimitRetries++;
+
+      const retryAfterSeconds = parseRetryAfter(error.response?.headers["retry-after"]) ?? 1;
+
+      process.stderr.write(
+        `[okta-mcp] Rate limited (429). Retry ${state.rateLimitRetries}/${MAX_RATE_LIMIT_RETRIES} after ${retryAfterSeconds}s\n`,
+      );
 
-    if (error.response?.status !== 429) {
+      await sleep(retryAfterSeconds * 1000);
+      return instance.request(config);
+    }
+
+    // ── Transient 5xx / network errors ───────────────────────────
+    if (!isTransient(error, policy) || !isReplayable(config, policy)) {
       return Promise.reject(error);
     }
 
-    const retryCount = config._retryCount ?? 0;
-    if (retryCount >= MAX_RETRIES) {
+    const transientAttempts = state.attempts - state.rateLimitRetries;
+    if (transientAttempts >= policy.maxAttempts) {
       return Promise.reject(error);
     }
 
-    config._retryCount = retryCount + 1;
+    const backoff = Math.min(
+      policy.maxDelayMs,
+      policy.baseDelayMs * 2 ** (transientAttempts - 1),
+    );
+    const retryAfterSeconds = parseRetryAfter(error.response?.headers["retry-after"]);
+    const delayMs =
+      retryAfterSeconds !== undefined
+        ? retryAfterSeconds * 1000
+        : Math.floor(Math.random() * backoff);
 
-    const retryAfterHeader = error.response.headers["retry-after"];
-    const retryAfterSeconds =
-      retryAfterHeader && !isNaN(Number(retryAfterHeader))
-        ? Number(retryAfterHeader)
-        : 1;
+    if (Date.now() - state.startedAt + delayMs > policy.totalBudgetMs) {
+      return Promise.reject(error);
+    }
 
     process.stderr.write(
-      `[okta-mcp] Rate limited (429). Retry ${config._retryCount}/${MAX_RETRIES} after ${retryAfterSeconds}s\n`
+      `[okta-mcp] Transient failure (${state.failures[state.failures.length - 1]}) on ` +
+        `${config.method?.toUpperCase()} ${config.url}. Retry ${transientAttempts}/${policy.maxAttempts - 1} after ${delayMs}ms\n`,
     );
 
-    await sleep(retryAfterSeconds * 1000);
-
+    await sleep(delayMs);
     return instance.request(config);
   });
 }
 
+function isTransient(error: AxiosError, policy: RetryPolicy): boolean {
+  if (error.response) {
+    return policy.retryStatuses.includes(error.response.status);
+  }
+  return !!error.code && policy.retryErrorCodes.includes(error.code);
+}
+
+function isReplayable(config: InternalAxiosRequestConfig, policy: RetryPolicy): boolean {
+  const method = (config.method ?? "GET").toUpperCase();
+  return config.retrySafe === true || policy.idempotentMethods.includes(method);
+}
+
+function parseRetryAfter(header: unknown): number | undefined {
+  if (header === undefined || header === null || header === "" || isNaN(Number(header))) {
+    return undefined;
+  }
+  return Number(header);
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { PlannedRequest } from "./dry-run.js";
+
+/**
+ * Per-tool-call context, carried through async calls with
+ * AsyncLocalStorage so the HTTP clients can see which tool call (and
+ * which org) a request belongs to without threading it through every
+ * handler.
+ */
+export interface ToolCallContext {
+  /** MCP tool name, e.g. okta_update_user */
+  tool: string;
+  /** Org profile selected for this call, if any */
+  org?: string;
+  /** Whether the caller explicitly confirmed write operations */
+  confirmed?: boolean;
+  /** Plan write requests instead of sending them */
+  dryRun?: boolean;
+  /** Write requests intercepted while in dry-run */
+  plannedRequests?: PlannedRequest[];
+}
+
+const storage = new AsyncLocalStorage<ToolCallContext>();
+
+/** Runs `fn` with `context` as the current tool-call context. */
+export function runInToolCall<T>(context: ToolCallContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/** Returns the context of the tool call currently executing, if any. */
+export function currentToolCall(): ToolCallContext | undefined {
+  return storage.getStore();
+}
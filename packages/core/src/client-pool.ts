@@ -0,0 +1,156 @@
+import { z } from "zod";
+import type { BaseClient, OktaClientOptions } from "./client.js";
+import { currentToolCall, runInToolCall } from "./call-context.js";
+import { authFromProfile, loadOrgProfiles, type OrgProfiles } from "./profiles.js";
+import type { ToolRegistrar } from "./tool-errors.js";
+
+/**
+ * Pool of clients, one per org profile, for a single server process.
+ *
+ * Without a profile file the pool holds one client configured from the
+ * OKTA_* environment variables, exactly as before. With OKTA_PROFILES_FILE
+ * set, a client is created lazily for each org the first time a tool
+ * call names it.
+ */
+export class ClientPool<C extends BaseClient> {
+  readonly profiles: OrgProfiles | undefined;
+  private readonly clients = new Map<string, C>();
+
+  /**
+   * @param create  Builds a client from options, e.g. `(o) => new OktaClient(o)`
+   * @param options Options shared by every client (e.g. `requiredScopes`)
+   */
+  constructor(
+    private readonly create: (options: OktaClientOptions) => C,
+    private readonly options: OktaClientOptions = {},
+    profiles: OrgProfiles | undefined = loadOrgProfiles(),
+  ) {
+    this.profiles = profiles;
+    // Build the default client eagerly so configuration errors surface at startup
+    this.get();
+  }
+
+  /** Names of the configured org profiles (empty in single-org mode). */
+  get orgNames(): string[] {
+    return this.profiles ? Object.keys(this.profiles.orgs) : [];
+  }
+
+  /** Returns the client for `org`, or for the default org when omitted. */
+  get(org?: string): C {
+    const name = org ?? this.profiles?.defaultOrg ?? "default";
+    const existing = this.clients.get(name);
+    if (existing) return existing;
+
+    let client: C;
+    if (!this.profiles) {
+      if (org !== undefined) {
+        throw new Error(
+          `Org "${org}" requested, but no profile file is configured. Set OKTA_PROFILES_FILE to use multiple orgs.`,
+        );
+      }
+      client = this.create(this.options);
+    } else {
+      const profile = this.profiles.orgs[name];
+      if (!profile) {
+        throw new Error(
+          `Unknown org "${name}". Configured orgs: ${this.orgNames.join(", ")}.`,
+        );
+      }
+      client = this.create({
+        ...this.options,
+        orgName: name,
+        orgUrl: profile.orgUrl,
+        auth: authFromProfile(name, profile, this.options.requiredScopes ?? []),
+        requireWriteConfirmation: profile.requireWriteConfirmation,
+      });
+    }
+
+    this.clients.set(name, client);
+    return client;
+  }
+
+  /**
+   * Returns a client stand-in that forwards every call to the client for
+   * the org of the tool call currently executing. Pass it to the
+   * register*Tools functions in place of a concrete client.
+   */
+  routed(): C {
+    return new Proxy({} as C, {
+      get: (_target, prop) => {
+        const client = this.get(currentToolCall()?.org);
+        const value = Reflect.get(client, prop, client);
+        return typeof value === "function" ? value.bind(client) : value;
+      },
+    });
+  }
+}
+
+/**
+ * Runs every tool registered on `server` from now on inside a tool-call
+ * context, and — when org profiles are configured — adds two optional
+ * parameters to each tool:
+ *
+ *  - `org`: which org profile the call targets (default: `defaultOrg`)
+ *  - `confirm`: must be true for write requests to orgs marked
+ *    `requireWriteConfirmation`
+ *
+ * Call right after {@link installToolErrorHandling} and before any
+ * register*Tools function.
+ */
+export function installOrgRouting(
+  server: ToolRegistrar,
+  pool: ClientPool<BaseClient>,
+): void {
+  const register = server.tool.bind(server);
+  const orgNames = pool.orgNames;
+
+  const routingShape: z.ZodRawShape =
+    orgNames.length > 0
+      ? {
+          org: z
+            .enum(orgNames as [string, ...string[]])
+            .optional()
+            .describe(
+              `Org profile to run against (default "${pool.profiles!.defaultOrg}"). Available: ${orgNames.join(", ")}`,
+            ),
+          confirm: z
+            .boolean()
+            .optional()
+            .describe(
+              "Set to true to confirm write operations against orgs that require explicit confirmation (e.g. production)",
+            ),
+        }
+      : {};
+
+  server.tool = (...args: unknown[]) => {
+    const name = args[0] as string;
+    const handler = args[args.length - 1] as (...a: unknown[]) => unknown;
+    const shapeIndex = args.findIndex((a, i) => i > 0 && i < args.length - 1 && isRawShape(a));
+
+    if (shapeIndex !== -1) {
+      args[shapeIndex] = { ...(args[shapeIndex] as z.ZodRawShape), ...routingShape };
+    }
+
+    args[args.length - 1] = (...callArgs: unknown[]) => {
+      const input = (shapeIndex !== -1 ? callArgs[0] : undefined) as
+        | { org?: string; confirm?: boolean }
+        | undefined;
+      return runInToolCall(
+        { tool: name, org: input?.org, confirmed: input?.confirm === true },
+        () => handler(...callArgs),
+      );
+    };
+
+    return register(...args);
+  };
+}
+
+/** Mirrors the MCP SDK's check for a Zod raw shape (a plain object of Zod types). */
+function isRawShape(value: unknown): value is z.ZodRawShape {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const entries = Object.values(value);
+  return (
+    entries.length === 0 ||
+    entries.every((v) => typeof v === "object" && v !== null && "_def" in v && "parse" in v)
+  );
+}
@@ -1,7 +1,21 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
-import { attachRetryInterceptor } from "./backoff.js";
-import { OktaApiError, parseOktaErrorBody } from "./errors.js";
-import { OAuthTokenProvider } from "./oauth.js";
+import {
+  attachRetryInterceptor,
+  getRetryInfo,
+  resolveRetryPolicy,
+  type RetryPolicy,
+} from "./backoff.js";
+import { OktaApiError, OktaRetryExhaustedError, parseOktaErrorBody } from "./errors.js";
+import { currentToolCall } from "./call-context.js";
+import { isDryRunActive, planRequest } from "./dry-run.js";
+import { redactBody, writeAuditEntry, type AuditEntry } from "./audit.js";
+import { loadToolPolicy } from "./tool-policy.js";
+import { DpopAuth, OAuthAuth, SswsAuth, type AuthStrategy } from "./auth.js";
+import {
+  attachRateLimitGovernor,
+  governorForOrg,
+  type RateLimitGovernor,
+} from "./rate-limit.js";
 
 /**
  * Options accepted by OktaClient (and IgaClient).
@@ -14,123 +28,192 @@ import { OAuthTokenProvider } from "./oauth.js";
 export interface OktaClientOptions {
   /** OAuth 2.0 scopes this server needs. Merged with OKTA_SCOPES env var. */
   requiredScopes?: string[];
+  /** Org URL override. Defaults to OKTA_ORG_URL. */
+  orgUrl?: string;
+  /** Explicit auth strategy. When omitted, one is chosen from the environment. */
+  auth?: AuthStrategy;
+  /** Overrides for the transient-failure retry policy */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Profile name of the org this client talks to (multi-org mode) */
+  orgName?: string;
+  /** Refuse write requests unless the current tool call is confirmed */
+  requireWriteConfirmation?: boolean;
 }
 
+/** Configuration for {@link BaseClient}. */
+export interface BaseClientConfig {
+  /** Okta org URL, e.g. https://your-org.okta.com (trailing slashes are stripped) */
+  orgUrl: string;
+  /** How requests are authenticated */
+  auth: AuthStrategy;
+  /** API path appended to the org URL, e.g. `/api/v1` */
+  pathPrefix: string;
+  /** Extra headers sent with every request */
+  defaultHeaders?: Record<string, string>;
+  /** Rate-limit governor. Defaults to the shared governor for the org. */
+  governor?: RateLimitGovernor;
+  /** Overrides for the transient-failure retry policy */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Profile name of the org, used in logs and error messages (default "default") */
+  orgName?: string;
+  /** Refuse write requests unless the current tool call passed `confirm: true` */
+  requireWriteConfirmation?: boolean;
+  /** Refuse every write request. Defaults to the tool policy's `readOnly`. */
+  readOnly?: boolean;
+}
+
+/** Methods that never change state in Okta. */
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
 /**
- * HTTP client for the Okta REST API.
- *
- * Supports two authentication methods (auto-detected from environment):
+ * Shared HTTP client for Okta REST APIs.
  *
- *  1. **OAuth 2.0 service-app** (preferred):
- *     Set OKTA_CLIENT_ID + OKTA_PRIVATE_KEY.
- *     Tokens are scoped — each server requests only the scopes it needs.
- *
- *  2. **SSWS API token** (legacy):
- *     Set OKTA_API_TOKEN.
- *     Token permissions are determined by the creating admin's role.
- *
- * Rate-limit (429) retries are handled automatically via the backoff
- * interceptor.
+ * Owns the Axios instance, authentication (via an {@link AuthStrategy}),
+ * proactive rate-limit pacing, retries (429 and transient failures) and
+ * error mapping. OktaClient and IgaClient are thin
+ * configurations of it that differ only in base path and default headers.
  */
-export class OktaClient {
+export class BaseClient {
+  readonly orgName: string;
+  readonly orgUrl: string;
   readonly baseUrl: string;
+  readonly auth: AuthStrategy;
+  readonly governor: RateLimitGovernor;
+  readonly requireWriteConfirmation: boolean;
+  readonly readOnly: boolean;
   protected readonly http: AxiosInstance;
-  protected tokenProvider: OAuthTokenProvider | null = null;
 
-  constructor(options?: OktaClientOptions) {
-    const orgUrl = process.env.OKTA_ORG_URL;
-    if (!orgUrl) {
-      throw new Error(
-        "OKTA_ORG_URL environment variable is required. " +
-          "Set it to your Okta org URL, e.g. https://your-org.okta.com",
-      );
-    }
+  constructor(config: BaseClientConfig) {
+    this.orgName = config.orgName ?? "default";
+    this.requireWriteConfirmation = config.requireWriteConfirmation ?? false;
+    this.readOnly = config.readOnly ?? loadToolPolicy().readOnly;
+    this.orgUrl = config.orgUrl.replace(/\/+$/, "");
+    this.baseUrl = this.orgUrl + config.pathPrefix;
+    this.auth = config.auth;
+    this.governor = config.governor ?? governorForOrg(this.orgUrl);
 
-    const cleanOrgUrl = orgUrl.replace(/\/+$/, "");
-
-    // ── Determine auth method ──────────────────────────────────────
-    const clientId = process.env.OKTA_CLIENT_ID;
-    const privateKey = process.env.OKTA_PRIVATE_KEY;
-    const apiToken = process.env.OKTA_API_TOKEN;
-
-    const useOAuth = !!(clientId && privateKey);
-    if (!useOAuth && !apiToken) {
-      throw new Error(
-        "Authentication is required. Provide either:\n" +
-          "  • OKTA_CLIENT_ID + OKTA_PRIVATE_KEY (OAuth 2.0 service app), or\n" +
-          "  • OKTA_API_TOKEN (SSWS API token)\n" +
-          "See the README for setup instructions.",
-      );
-    }
-
-    // ── Base URL ───────────────────────────────────────────────────
-    this.baseUrl = cleanOrgUrl + "/api/v1";
-
-    // ── Axios instance ─────────────────────────────────────────────
     this.http = axios.create({
       baseURL: this.baseUrl,
       headers: {
         Accept: "application/json",
         "Content-Type": "application/json",
+        ...config.defaultHeaders,
       },
     });
 
-    // ── Auth: OAuth 2.0 ────────────────────────────────────────────
-    if (useOAuth) {
-      const envScopes = process.env.OKTA_SCOPES?.split(/\s+/).filter(Boolean) ?? [];
-      const scopes = mergeScopes(options?.requiredScopes ?? [], envScopes);
+    // Request interceptor: let the auth strategy sign every request
+    this.http.interceptors.request.use(async (req) => {
+      await this.auth.authorize(req);
+      return req;
+    });
 
-      if (scopes.length === 0) {
-        throw new Error(
-          "OAuth 2.0 mode requires at least one scope. " +
-            "Pass requiredScopes to the client or set OKTA_SCOPES.",
-        );
-      }
+    attachRateLimitGovernor(this.http, this.governor);
+    attachRetryInterceptor(this.http, resolveRetryPolicy(config.retryPolicy));
 
-      this.tokenProvider = new OAuthTokenProvider({
-        orgUrl: cleanOrgUrl,
-        clientId: clientId!,
-        privateKey: privateKey!,
-        scopes,
-      });
-
-      // Request interceptor: inject Bearer token before every request
-      this.http.interceptors.request.use(async (config) => {
-        const token = await this.tokenProvider!.getAccessToken();
-        config.headers.Authorization = `Bearer ${token}`;
-        return config;
-      });
-
-      process.stderr.write(
-        `[okta-mcp] Using OAuth 2.0 (client_id=${clientId}, scopes=${scopes.join(" ")})\n`,
-      );
-    } else {
-      // ── Auth: SSWS ─────────────────────────────────────────────
-      this.http.defaults.headers.common["Authorization"] = `SSWS ${apiToken}`;
-    }
-
-    attachRetryInterceptor(this.http);
+    process.stderr.write(
+      `[okta-mcp] Using ${this.auth.describe()} for ${this.baseUrl}` +
+        (config.orgName ? ` (org profile "${config.orgName}")` : "") +
+        "\n",
+    );
   }
 
   /**
    * Central request method. All convenience methods delegate here.
    * Catches Axios errors and re-throws them as structured OktaApiError
-   * when the response body matches the Okta error shape.
+   * when the response body matches the Okta error shape. Errors that
+   * survived one or more retries carry the retry history.
+   *
+   * Write requests are refused outright in read-only mode, and to an
+   * org that requires confirmation unless the current tool call passed
+   * `confirm: true`. Every write that is sent is appended to the audit
+   * journal, whether it succeeds or fails.
    */
   async request<T = unknown>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const method = (config.method ?? "GET").toUpperCase();
+    if (this.readOnly && !READ_METHODS.has(method)) {
+      throw new Error(
+        `This server is running in read-only mode (OKTA_READ_ONLY); refusing ${method} ${config.url}.`,
+      );
+    }
+    if (!READ_METHODS.has(method) && isDryRunActive()) {
+      const planned = await planRequest(this, config);
+      // Hand the handler something shaped like the real response so it can finish.
+      // A create gets a placeholder ID so requests chained on it plan a readable path.
+      let data = planned.body !== undefined ? planned.body : (planned.current ?? {});
+      if (planned.placeholderId) {
+        data = { ...(data as Record<string, unknown>), id: planned.placeholderId };
+      }
+      return { data, status: 200, statusText: "DRY RUN", headers: {}, config } as AxiosResponse<T>;
+    }
+    if (
+      this.requireWriteConfirmation &&
+      !READ_METHODS.has(method) &&
+      !currentToolCall()?.confirmed
+    ) {
+      throw new Error(
+        `Org "${this.orgName}" requires explicit confirmation for write operations. ` +
+          `Review the change, then call the tool again with confirm: true to send ${method} ${config.url}.`,
+      );
+    }
+
+    const audit = READ_METHODS.has(method) ? undefined : this.auditEntry(method, config);
     try {
-      return await this.http.request<T>(config);
+      const resp = await this.http.request<T>(config);
+      if (audit) {
+        writeAuditEntry({
+          timestamp: new Date().toISOString(),
+          ...audit,
+          status: resp.status,
+          requestId: headerValue(resp.headers["x-okta-request-id"]),
+        });
+      }
+      return resp;
     } catch (err: unknown) {
-      if (axios.isAxiosError(err) && err.response) {
-        const parsed = parseOktaErrorBody(err.response.data);
-        if (parsed) {
-          throw new OktaApiError(err.response.status, parsed);
-        }
+      const retry = getRetryInfo(err);
+      const parsed =
+        axios.isAxiosError(err) && err.response ? parseOktaErrorBody(err.response.data) : null;
+      if (audit) {
+        writeAuditEntry({
+          timestamp: new Date().toISOString(),
+          ...audit,
+          status: axios.isAxiosError(err) ? err.response?.status : undefined,
+          errorCode: parsed?.errorCode,
+          errorId: parsed?.errorId,
+          requestId: axios.isAxiosError(err)
+            ? headerValue(err.response?.headers["x-okta-request-id"])
+            : undefined,
+          error: parsed ? undefined : err instanceof Error ? err.message : String(err),
+        });
+      }
+      if (axios.isAxiosError(err) && err.response && parsed) {
+        throw new OktaApiError(err.response.status, parsed, retry);
+      }
+      if (axios.isAxiosError(err) && retry) {
+        throw new OktaRetryExhaustedError(
+          { message: err.message, status: err.response?.status, code: err.code },
+          retry,
+        );
       }
       throw err;
     }
   }
 
+  /** The request-side fields of the audit journal entry for a write. */
+  private auditEntry(
+    method: string,
+    config: AxiosRequestConfig,
+  ): Omit<AuditEntry, "timestamp"> {
+    return {
+      tool: currentToolCall()?.tool,
+      org: this.orgName,
+      orgUrl: this.orgUrl,
+      method,
+      path: this.baseUrl.slice(this.orgUrl.length) + (config.url ?? ""),
+      params: config.params,
+      body: config.data === undefined ? undefined : redactBody(config.data),
+    };
+  }
+
   async get<T = unknown>(
     path: string,
     options?: { params?: Record<string, unknown> },
@@ -138,12 +221,22 @@ export class OktaClient {
     return this.request<T>({ method: "GET", url: path, params: options?.params });
   }
 
+  /**
+   * POST is not retried on transient failures unless `retrySafe` is set,
+   * since replaying it may repeat a side effect.
+   */
   async post<T = unknown>(
     path: string,
     data?: unknown,
-    options?: { params?: Record<string, unknown> },
+    options?: { params?: Record<string, unknown>; retrySafe?: boolean },
   ): Promise<AxiosResponse<T>> {
-    return this.request<T>({ method: "POST", url: path, data, params: options?.params });
+    return this.request<T>({
+      method: "POST",
+      url: path,
+      data,
+      params: options?.params,
+      retrySafe: options?.retrySafe,
+    });
   }
 
   async put<T = unknown>(
@@ -164,13 +257,121 @@ export class OktaClient {
   async patch<T = unknown>(
     path: string,
     data?: unknown,
-    options?: { params?: Record<string, unknown> },
+    options?: { params?: Record<string, unknown>; retrySafe?: boolean },
   ): Promise<AxiosResponse<T>> {
-    return this.request<T>({ method: "PATCH", url: path, data, params: options?.params });
+    return this.request<T>({
+      method: "PATCH",
+      url: path,
+      data,
+      params: options?.params,
+      retrySafe: options?.retrySafe,
+    });
   }
 }
 
+/**
+ * HTTP client for the Okta REST API.
+ *
+ * Supports two authentication methods (auto-detected from environment):
+ *
+ *  1. **OAuth 2.0 service-app** (preferred):
+ *     Set OKTA_CLIENT_ID + OKTA_PRIVATE_KEY.
+ *     Tokens are scoped — each server requests only the scopes it needs.
+ *     Set OKTA_DPOP=true to request DPoP-bound tokens.
+ *
+ *  2. **SSWS API token** (legacy):
+ *     Set OKTA_API_TOKEN.
+ *     Token permissions are determined by the creating admin's role.
+ *
+ * Requests are paced by the org's rate-limit governor, and 429 responses
+ * are retried automatically via the backoff interceptor.
+ */
+export class OktaClient extends BaseClient {
+  constructor(options?: OktaClientOptions) {
+    super({ ...resolveConnection(options), pathPrefix: "/api/v1" });
+  }
+}
+
+/**
+ * Resolves the org URL and auth strategy for a client, from explicit
+ * options first and the environment second. The remaining options are
+ * passed through to {@link BaseClientConfig}.
+ */
+export function resolveConnection(
+  options?: OktaClientOptions,
+): Omit<BaseClientConfig, "pathPrefix" | "defaultHeaders"> {
+  const passthrough = {
+    retryPolicy: options?.retryPolicy,
+    orgName: options?.orgName,
+    requireWriteConfirmation: options?.requireWriteConfirmation,
+  };
+
+  const orgUrl = options?.orgUrl ?? process.env.OKTA_ORG_URL;
+  if (!orgUrl) {
+    throw new Error(
+      "OKTA_ORG_URL environment variable is required. " +
+        "Set it to your Okta org URL, e.g. https://your-org.okta.com",
+    );
+  }
+
+  const cleanOrgUrl = orgUrl.replace(/\/+$/, "");
+  if (options?.auth) {
+    return { ...passthrough, orgUrl: cleanOrgUrl, auth: options.auth };
+  }
+
+  // ── Determine auth method ──────────────────────────────────────
+  const clientId = process.env.OKTA_CLIENT_ID;
+  const privateKey = process.env.OKTA_PRIVATE_KEY;
+  const apiToken = process.env.OKTA_API_TOKEN;
+
+  const useOAuth = !!(clientId && privateKey);
+  if (!useOAuth && !apiToken) {
+    throw new Error(
+      "Authentication is required. Provide either:\n" +
+        "  • OKTA_CLIENT_ID + OKTA_PRIVATE_KEY (OAuth 2.0 service app), or\n" +
+        "  • OKTA_API_TOKEN (SSWS API token)\n" +
+        "See the README for setup instructions.",
+    );
+  }
+
+  // ── Auth: SSWS ─────────────────────────────────────────────────
+  if (!useOAuth) {
+    return { ...passthrough, orgUrl: cleanOrgUrl, auth: new SswsAuth(apiToken!) };
+  }
+
+  // ── Auth: OAuth 2.0 ────────────────────────────────────────────
+  const envScopes = process.env.OKTA_SCOPES?.split(/\s+/).filter(Boolean) ?? [];
+  const scopes = mergeScopes(options?.requiredScopes ?? [], envScopes);
+
+  if (scopes.length === 0) {
+    throw new Error(
+      "OAuth 2.0 mode requires at least one scope. " +
+        "Pass requiredScopes to the client or set OKTA_SCOPES.",
+    );
+  }
+
+  const oauthConfig = {
+    orgUrl: cleanOrgUrl,
+    clientId: clientId!,
+    privateKey: privateKey!,
+    scopes,
+  };
+  const useDpop = process.env.OKTA_DPOP?.toLowerCase() === "true";
+
+  return {
+    ...passthrough,
+    orgUrl: cleanOrgUrl,
+    auth: useDpop ? new DpopAuth(oauthConfig) : new OAuthAuth(oauthConfig),
+  };
+}
+
 /** Deduplicate and merge two scope arrays. */
 function mergeScopes(a: string[], b: string[]): string[] {
   return [...new Set([...a, ...b])];
 }
+
+/** Normalizes an Axios header value to a single string. */
+function headerValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) return value[0] !== undefined ? String(value[0]) : undefined;
+  return value === undefined || value === null ? undefined : String(value);
+}
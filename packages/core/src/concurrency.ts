@@ -0,0 +1,30 @@
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight and returns
+ * the results in input order.
+ *
+ * Use it for fan-out over many Okta objects. Pacing against Okta's rate
+ * limits is still done per request by the client's governor; `limit`
+ * only bounds how many requests queue up at once.
+ *
+ * A rejection from `fn` rejects the whole call, as with Promise.all.
+ * Catch inside `fn` to collect per-item failures instead.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,262 @@
+import type { AxiosRequestConfig } from "axios";
+import { z } from "zod";
+import type { BaseClient } from "./client.js";
+import { currentToolCall } from "./call-context.js";
+import { OktaApiError } from "./errors.js";
+import { isReadOnlyToolName, loadToolPolicy } from "./tool-policy.js";
+import { describeToolError, type ToolRegistrar } from "./tool-errors.js";
+
+/**
+ * Dry-run support for write tools.
+ *
+ * In dry-run, the client does not send write requests. It looks up the
+ * current state of the target instead, and records the request it would
+ * have sent. Once the tool handler finishes, its result is replaced by a
+ * report listing those requests.
+ *
+ * Dry-run is enabled per call with the `dryRun` tool parameter, or for
+ * the whole server with OKTA_DRY_RUN=true.
+ */
+
+/** One field that a planned request would change. */
+export interface FieldChange {
+  /** Dot-separated path, e.g. `profile.department` */
+  field: string;
+  before: unknown;
+  after: unknown;
+  /** Set when a full replacement would drop the field */
+  removed?: true;
+}
+
+/** A write request that dry-run intercepted instead of sending. */
+export interface PlannedRequest {
+  method: string;
+  /** Request path relative to the client's base URL */
+  path: string;
+  params?: Record<string, unknown>;
+  body?: unknown;
+  /** Current state of the target, or null if there is none (e.g. a create) or it could not be read */
+  current: unknown;
+  /** Why the current state could not be read (e.g. a 403 for a narrower scope); no diff is computed then */
+  currentUnavailable?: string;
+  /** Changes the body would make to `current`. Omitted for DELETE and bodiless requests. */
+  diff?: FieldChange[];
+  /**
+   * Stand-in ID returned for the object a create would make, e.g.
+   * `<dry-run:new-user>`. Later planned requests that use it depend on
+   * this create.
+   */
+  placeholderId?: string;
+}
+
+/** Server-managed fields a full replacement (PUT) does not remove. */
+const READ_ONLY_FIELDS = new Set([
+  "id",
+  "created",
+  "lastUpdated",
+  "activated",
+  "statusChanged",
+  "lastLogin",
+  "passwordChanged",
+  "lastMembershipUpdated",
+]);
+
+/** Whether the current request should be planned instead of sent. */
+export function isDryRunActive(): boolean {
+  return currentToolCall()?.dryRun === true || loadToolPolicy().dryRun;
+}
+
+/**
+ * Builds the dry-run record for a write request: fetches the target's
+ * current state, where a GET for it exists, and diffs the body against it.
+ * A create (POST to a collection) has no current state, so it gets a
+ * placeholder ID instead.
+ */
+export async function planRequest(
+  client: BaseClient,
+  config: AxiosRequestConfig,
+): Promise<PlannedRequest> {
+  const method = (config.method ?? "GET").toUpperCase();
+  const path = config.url ?? "";
+  const collection = method === "POST" ? collectionName(path) : undefined;
+  // Nothing to look up for a create, or for an object an earlier planned create would make
+  const { current, unavailable } = collection || path.includes("<dry-run:") || path.includes("%3Cdry-run")
+    ? { current: null }
+    : await fetchCurrentState(client, path);
+
+  const planned: PlannedRequest = {
+    method,
+    path,
+    params: stripUndefined(config.params),
+    body: config.data,
+    current,
+    ...(unavailable ? { currentUnavailable: unavailable } : {}),
+  };
+  if (method !== "DELETE" && !unavailable && isPlainObject(config.data)) {
+    planned.diff = diffObjects(current, config.data, { replace: method === "PUT" });
+  }
+  if (collection && !(isPlainObject(config.data) && config.data.id !== undefined)) {
+    planned.placeholderId = `<dry-run:new-${singular(collection)}>`;
+  }
+
+  currentToolCall()?.plannedRequests?.push(planned);
+  return planned;
+}
+
+/**
+ * Lists the leaf fields of `after` whose values differ from `before`;
+ * arrays are compared as whole values. Fields absent from `after` are left
+ * out, matching Okta's partial-update semantics, unless `replace` is set:
+ * a full replacement (PUT) drops them, so they are reported as `removed`. Server-managed fields such as `id` and `_links` are never
+ * reported as removed.
+ */
+export function diffObjects(
+  before: unknown,
+  after: unknown,
+  options: { replace?: boolean } = {},
+  prefix = "",
+): FieldChange[] {
+  if (!isPlainObject(after)) {
+    return JSON.stringify(before) === JSON.stringify(after)
+      ? []
+      : [{ field: prefix || "(body)", before, after }];
+  }
+
+  const changes: FieldChange[] = [];
+  const beforeObj = isPlainObject(before) ? before : {};
+  for (const [key, value] of Object.entries(after)) {
+    if (value === undefined) continue;
+    const field = prefix ? `${prefix}.${key}` : key;
+    changes.push(...diffObjects(beforeObj[key], value, options, field));
+  }
+  if (options.replace) {
+    for (const [key, value] of Object.entries(beforeObj)) {
+      if (after[key] !== undefined || value === undefined) continue;
+      if (key.startsWith("_") || (!prefix && READ_ONLY_FIELDS.has(key))) continue;
+      changes.push({ field: prefix ? `${prefix}.${key}` : key, before: value, after: undefined, removed: true });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Adds a `dryRun` parameter to every write tool registered on `server`
+ * from now on, and replaces a dry-run call's result with the list of
+ * requests it would have sent.
+ *
+ * Call after {@link installOrgRouting}, so the handler runs inside the
+ * tool-call context.
+ */
+export function installDryRun(server: ToolRegistrar): void {
+  const register = server.tool.bind(server);
+
+  server.tool = (...args: unknown[]) => {
+    const name = args[0] as string;
+    if (isReadOnlyToolName(name)) {
+      return register(...args);
+    }
+
+    const handler = args[args.length - 1] as (...a: unknown[]) => unknown;
+    const shapeIndex = args.findIndex(
+      (a, i) => i > 0 && i < args.length - 1 && typeof a === "object" && a !== null,
+    );
+    if (shapeIndex !== -1) {
+      args[shapeIndex] = {
+        ...(args[shapeIndex] as z.ZodRawShape),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "If true, send nothing: return the HTTP method, path and body that would be sent, plus a field-level diff against the current object",
+          ),
+      };
+    }
+
+    args[args.length - 1] = async (...callArgs: unknown[]) => {
+      const context = currentToolCall();
+      const input = (shapeIndex !== -1 ? callArgs[0] : undefined) as { dryRun?: boolean } | undefined;
+      if (context && (input?.dryRun === true || loadToolPolicy().dryRun)) {
+        context.dryRun = true;
+        context.plannedRequests = [];
+      }
+      if (!context?.dryRun) {
+        return handler(...callArgs);
+      }
+
+      await handler(...callArgs);
+      const report = {
+        dryRun: true,
+        tool: name,
+        message:
+          context.plannedRequests!.length > 0
+            ? "Nothing was written. These requests would have been sent:"
+            : "Nothing was written. This call would not have sent any write requests.",
+        requests: context.plannedRequests,
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+      };
+    };
+
+    return register(...args);
+  };
+}
+
+/* ====================================================================
+ * Internal helpers
+ * ==================================================================== */
+
+/**
+ * Returns the collection a POST creates into (`users` for POST /users or
+ * `rules` for POST /policies/{id}/rules), or undefined when the path ends
+ * in an ID or an action such as `lifecycle/activate`.
+ */
+function collectionName(path: string): string | undefined {
+  const segments = path.split("?")[0].split("/").filter(Boolean);
+  const last = segments[segments.length - 1];
+  if (!last || segments[segments.length - 2] === "lifecycle" || !/^[a-z][a-zA-Z-]*$/.test(last)) {
+    return undefined;
+  }
+  return last;
+}
+
+function singular(collection: string): string {
+  if (collection.endsWith("ies")) return `${collection.slice(0, -3)}y`;
+  return collection.endsWith("s") ? collection.slice(0, -1) : collection;
+}
+
+/**
+ * GETs the resource a write request targets. Lifecycle and credential
+ * actions (`/users/{id}/lifecycle/suspend`) resolve to their parent
+ * resource. Returns null when there is no single current object — a 404,
+ * or a collection (the request is a create). Any other failure is
+ * returned as `unavailable` rather than thrown: the write is never sent,
+ * so a lookup the caller may not be allowed to make shouldn't stop the plan.
+ */
+async function fetchCurrentState(
+  client: BaseClient,
+  path: string,
+): Promise<{ current: unknown; unavailable?: string }> {
+  const resourcePath = path.replace(/\/(lifecycle|credentials\/lifecycle)\/[^/]+$/, "");
+  try {
+    const resp = await client.get(resourcePath);
+    return { current: Array.isArray(resp.data) ? null : resp.data };
+  } catch (err: unknown) {
+    if (err instanceof OktaApiError && (err.status === 404 || err.status === 405)) {
+      return { current: null };
+    }
+    return { current: null, unavailable: describeToolError(err).summary };
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stripUndefined(
+  params: Record<string, unknown> | undefined,
+): Record<string, unknown> | undefined {
+  if (!params) return undefined;
+  const defined = Object.entries(params).filter(([, v]) => v !== undefined);
+  return defined.length > 0 ? Object.fromEntries(defined) : undefined;
+}
@@ -4,6 +4,8 @@
  * Reference: https://developer.okta.com/docs/reference/error-codes/
  */
 
+import type { RetryInfo } from "./backoff.js";
+
 export interface OktaErrorCause {
   errorSummary: string;
 }
@@ -23,8 +25,10 @@ export class OktaApiError extends Error {
   readonly errorId: string;
   readonly errorCauses: OktaErrorCause[];
   readonly friendlyMessage: string;
+  /** Retry history, when the request was retried before failing */
+  readonly retry?: RetryInfo;
 
-  constructor(status: number, body: OktaErrorBody) {
+  constructor(status: number, body: OktaErrorBody, retry?: RetryInfo) {
     const friendly = OKTA_ERROR_CODES[body.errorCode];
     const message = friendly
       ? `${body.errorCode}: ${friendly} — ${body.errorSummary}`
@@ -38,6 +42,33 @@ export class OktaApiError extends Error {
     this.errorId = body.errorId;
     this.errorCauses = body.errorCauses ?? [];
     this.friendlyMessage = friendly ?? body.errorSummary;
+    this.retry = retry;
+  }
+}
+
+/**
+ * Thrown when a request kept failing with a transient error (5xx without
+ * an Okta error body, or a network error) until the retry policy gave up.
+ */
+export class OktaRetryExhaustedError extends Error {
+  /** HTTP status of the last attempt, if a response was received */
+  readonly status?: number;
+  /** Network error code of the last attempt, e.g. ECONNRESET */
+  readonly code?: string;
+  readonly retry: RetryInfo;
+
+  constructor(
+    lastError: { message: string; status?: number; code?: string },
+    retry: RetryInfo,
+  ) {
+    super(
+      `Request failed after ${retry.attempts} attempts over ${retry.elapsedMs}ms ` +
+        `(${retry.failures.join(", ")}): ${lastError.message}`,
+    );
+    this.name = "OktaRetryExhaustedError";
+    this.status = lastError.status;
+    this.code = lastError.code;
+    this.retry = retry;
   }
 }
 
@@ -0,0 +1,39 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * Directory that file paths passed to tools must stay inside:
+ * OKTA_DATA_DIR, or `~/.okta-mcp/data` when that is unset. Not the
+ * working directory, which MCP hosts often set to `/`.
+ */
+export function dataDir(): string {
+  return path.resolve(process.env.OKTA_DATA_DIR || path.join(os.homedir(), ".okta-mcp", "data"));
+}
+
+/**
+ * Resolves a file path a tool caller passed in, refusing anything outside
+ * {@link dataDir}, which is created if missing. Relative paths are taken
+ * from the data directory. Symlinks are followed before the check, so a
+ * link inside the directory cannot point a read or write elsewhere.
+ */
+export function resolveDataPath(file: string): string {
+  const dir = dataDir();
+  fs.mkdirSync(dir, { recursive: true });
+  const root = realpath(dir);
+  const resolved = realpath(path.resolve(root, file));
+  const relative = path.relative(root, resolved);
+  if (relative === "" || relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(
+      `${file} is outside the data directory ${root}. Use a path inside it, or set OKTA_DATA_DIR.`,
+    );
+  }
+  return resolved;
+}
+
+/** Real path of `target`, or of its nearest existing parent for a file not created yet. */
+function realpath(target: string): string {
+  if (fs.existsSync(target)) return fs.realpathSync(target);
+  const parent = path.dirname(target);
+  return parent === target ? target : path.join(realpath(parent), path.basename(target));
+}
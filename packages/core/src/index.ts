@@ -1,23 +1,112 @@
 // @okta-mcp/core — barrel export
 // Every public API of the core package is re-exported here.
 
-export { OktaClient, type OktaClientOptions } from "./client.js";
+export {
+  BaseClient,
+  OktaClient,
+  resolveConnection,
+  type BaseClientConfig,
+  type OktaClientOptions,
+} from "./client.js";
 export { IgaClient } from "./iga-client.js";
+export { ClientPool, installOrgRouting } from "./client-pool.js";
+export {
+  loadOrgProfiles,
+  authFromProfile,
+  type OrgProfile,
+  type OrgProfiles,
+  type SswsProfileAuth,
+  type OAuthProfileAuth,
+} from "./profiles.js";
+export {
+  loadToolPolicy,
+  isToolAllowed,
+  installToolPolicy,
+  isReadOnlyToolName,
+  type ToolPolicy,
+} from "./tool-policy.js";
+export {
+  auditLogPath,
+  writeAuditEntry,
+  redactBody,
+  type AuditEntry,
+} from "./audit.js";
+export {
+  installDryRun,
+  isDryRunActive,
+  diffObjects,
+  type PlannedRequest,
+  type FieldChange,
+} from "./dry-run.js";
+export {
+  runInToolCall,
+  currentToolCall,
+  type ToolCallContext,
+} from "./call-context.js";
+export {
+  SswsAuth,
+  OAuthAuth,
+  DpopAuth,
+  StaticTokenAuth,
+  type AuthStrategy,
+} from "./auth.js";
 export { OAuthTokenProvider, type OAuthConfig } from "./oauth.js";
 export {
   OktaApiError,
+  OktaRetryExhaustedError,
   parseOktaErrorBody,
   OKTA_ERROR_CODES,
   type OktaErrorBody,
   type OktaErrorCause,
 } from "./errors.js";
-export { parseLinkHeader, fetchAllPages } from "./pagination.js";
-export { attachRetryInterceptor } from "./backoff.js";
+export {
+  parseLinkHeader,
+  extractCursor,
+  toListResponse,
+  fetchAllPages,
+  listItems,
+  paginationShape,
+  DEFAULT_MAX_ITEMS,
+  HARD_MAX_ITEMS,
+  type PageableClient,
+  type ListOptions,
+} from "./pagination.js";
+export { mapWithConcurrency } from "./concurrency.js";
+export { dataDir, resolveDataPath } from "./files.js";
+export {
+  fetchUserAttributes,
+  validateProfile,
+  isSourceMastered,
+  hasExternalSource,
+  checkProfileUpdate,
+  updateUserProfile,
+  coerceValue,
+  type UserSchema,
+  type UserSchemaProperty,
+  type UserAttribute,
+} from "./user-schema.js";
+export {
+  attachRetryInterceptor,
+  resolveRetryPolicy,
+  getRetryInfo,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+  type RetryInfo,
+} from "./backoff.js";
+export {
+  RateLimitGovernor,
+  attachRateLimitGovernor,
+  governorForOrg,
+  rateLimitBucketKey,
+  type RateLimitBucket,
+  type RateLimitGovernorOptions,
+} from "./rate-limit.js";
 export type {
   OktaUser,
   OktaGroup,
   OktaApp,
   OktaPolicy,
+  OktaPolicyRule,
   OktaErrorResponse,
   OktaListResponse,
   IgaEntitlement,
@@ -31,3 +120,12 @@ export type {
   OktaEventHook,
   OktaInlineHook,
 } from "./types.js";
+export {
+  installToolErrorHandling,
+  withToolErrors,
+  toToolErrorResult,
+  describeToolError,
+  type ToolErrorDetail,
+  type ToolErrorResult,
+  type ToolRegistrar,
+} from "./tool-errors.js";
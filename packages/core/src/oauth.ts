@@ -7,6 +7,11 @@ import crypto from "node:crypto";
  * (RFC 7523). The JWT is signed locally with an RSA key, exchanged at
  * the Okta `/oauth2/v1/token` endpoint for a short-lived Bearer access
  * token, and cached until it nears expiry.
+ *
+ * When `dpop` is enabled, tokens are sender-constrained per RFC 9449: an
+ * ephemeral EC P-256 keypair is generated per provider, every token
+ * request carries a DPoP proof, and the `use_dpop_nonce` challenge from
+ * the token endpoint is answered by retrying with the server's nonce.
  */
 
 export interface OAuthConfig {
@@ -18,6 +23,8 @@ export interface OAuthConfig {
   privateKey: string;
   /** OAuth 2.0 scopes to request */
   scopes: string[];
+  /** Request DPoP-bound access tokens instead of plain Bearer tokens */
+  dpop?: boolean;
 }
 
 interface TokenResponse {
@@ -30,15 +37,64 @@ interface TokenResponse {
 /** Buffer (in ms) before expiry at which a proactive refresh is triggered. */
 const EXPIRY_BUFFER_MS = 60_000;
 
+/** Ephemeral keypair used to sign DPoP proofs. */
+interface DpopKeyPair {
+  privateKey: crypto.KeyObject;
+  publicJwk: crypto.JsonWebKey;
+}
+
 export class OAuthTokenProvider {
   private readonly config: OAuthConfig;
   private readonly key: crypto.KeyObject;
+  private readonly dpopKey: DpopKeyPair | null;
+  private dpopNonce: string | undefined;
   private accessToken: string | null = null;
   private expiresAt = 0;
 
   constructor(config: OAuthConfig) {
     this.config = config;
     this.key = resolvePrivateKey(config.privateKey);
+    this.dpopKey = config.dpop ? generateDpopKeyPair() : null;
+  }
+
+  /** Whether issued tokens are DPoP-bound. */
+  get dpopEnabled(): boolean {
+    return this.dpopKey !== null;
+  }
+
+  /**
+   * Builds a DPoP proof JWT for one HTTP request.
+   *
+   * `htu` must be the request URL without query or fragment. Pass the
+   * access token when calling a resource server so the proof carries
+   * its `ath` hash; omit it for token-endpoint requests.
+   */
+  createDpopProof(
+    htm: string,
+    htu: string,
+    options?: { accessToken?: string; nonce?: string },
+  ): string {
+    if (!this.dpopKey) {
+      throw new Error("DPoP is not enabled for this OAuth token provider.");
+    }
+
+    const claims: Record<string, unknown> = {
+      htm: htm.toUpperCase(),
+      htu,
+      iat: Math.floor(Date.now() / 1000),
+      jti: crypto.randomUUID(),
+    };
+    if (options?.nonce) {
+      claims.nonce = options.nonce;
+    }
+    if (options?.accessToken) {
+      claims.ath = crypto
+        .createHash("sha256")
+        .update(options.accessToken)
+        .digest("base64url");
+    }
+
+    return signDpopJwt(claims, this.dpopKey);
   }
 
   /** Returns a valid access token, refreshing transparently when needed. */
@@ -52,11 +108,49 @@ export class OAuthTokenProvider {
   /* ------------------------------------------------------------------ */
 
   private async refresh(): Promise<string> {
+    let resp = await this.requestToken();
+
+    // Okta answers the first DPoP token request with a nonce challenge;
+    // retry once with the nonce embedded in a fresh proof.
+    if (this.dpopKey && resp.status === 400) {
+      const nonce = resp.headers.get("dpop-nonce");
+      const errBody = (await resp.clone().json().catch(() => ({}))) as { error?: string };
+      if (nonce && errBody.error === "use_dpop_nonce") {
+        this.dpopNonce = nonce;
+        resp = await this.requestToken();
+      }
+    }
+
+    if (!resp.ok) {
+      const errText = await resp.text();
+      throw new Error(
+        `Okta OAuth token request failed (${resp.status}): ${errText}`,
+      );
+    }
+
+    const data = (await resp.json()) as TokenResponse;
+    this.accessToken = data.access_token;
+    this.expiresAt = Date.now() + data.expires_in * 1000;
+
+    process.stderr.write(
+      `[okta-mcp] OAuth ${data.token_type} token acquired (scopes: ${data.scope}, expires in ${data.expires_in}s)\n`,
+    );
+
+    return this.accessToken;
+  }
+
+  /**
+   * POSTs a client_credentials request to the token endpoint. Each call
+   * signs a fresh client assertion (Okta rejects a reused `jti`) and,
+   * with DPoP, a fresh proof carrying the last nonce Okta issued.
+   */
+  private requestToken(): Promise<Response> {
+    const tokenUrl = `${this.config.orgUrl}/oauth2/v1/token`;
     const now = Math.floor(Date.now() / 1000);
     const claims = {
       iss: this.config.clientId,
       sub: this.config.clientId,
-      aud: `${this.config.orgUrl}/oauth2/v1/token`,
+      aud: tokenUrl,
       iat: now,
       exp: now + 300, // 5-minute JWT lifetime
       jti: crypto.randomUUID(),
@@ -72,34 +166,19 @@ export class OAuthTokenProvider {
       scope: this.config.scopes.join(" "),
     });
 
-    const resp = await fetch(
-      `${this.config.orgUrl}/oauth2/v1/token`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Accept: "application/json",
-        },
-        body: body.toString(),
-      },
-    );
-
-    if (!resp.ok) {
-      const errText = await resp.text();
-      throw new Error(
-        `Okta OAuth token request failed (${resp.status}): ${errText}`,
-      );
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+    if (this.dpopKey) {
+      headers.DPoP = this.createDpopProof("POST", tokenUrl, { nonce: this.dpopNonce });
     }
 
-    const data = (await resp.json()) as TokenResponse;
-    this.accessToken = data.access_token;
-    this.expiresAt = Date.now() + data.expires_in * 1000;
-
-    process.stderr.write(
-      `[okta-mcp] OAuth token acquired (scopes: ${data.scope}, expires in ${data.expires_in}s)\n`,
-    );
-
-    return this.accessToken;
+    return fetch(tokenUrl, {
+      method: "POST",
+      headers,
+      body: body.toString(),
+    });
   }
 }
 
@@ -148,3 +227,33 @@ function signJwt(
 
   return `${header}.${payload}.${signature}`;
 }
+
+/** Generate an ephemeral EC P-256 keypair for DPoP proofs. */
+function generateDpopKeyPair(): DpopKeyPair {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", {
+    namedCurve: "P-256",
+  });
+  const { kty, crv, x, y } = publicKey.export({ format: "jwk" });
+  return { privateKey, publicJwk: { kty, crv, x, y } };
+}
+
+/** Create a compact ES256 DPoP proof JWT with the public key embedded. */
+function signDpopJwt(
+  claims: Record<string, unknown>,
+  key: DpopKeyPair,
+): string {
+  const header = Buffer.from(
+    JSON.stringify({ typ: "dpop+jwt", alg: "ES256", jwk: key.publicJwk }),
+  ).toString("base64url");
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+
+  const signature = crypto
+    .sign("sha256", Buffer.from(`${header}.${payload}`), {
+      key: key.privateKey,
+      dsaEncoding: "ieee-p1363",
+    })
+    .toString("base64url");
+
+  return `${header}.${payload}.${signature}`;
+}
@@ -1,4 +1,46 @@
-import type { OktaClient } from "./client.js";
+import type { AxiosResponse } from "axios";
+import { z } from "zod";
+import type { BaseClient } from "./client.js";
+import type { OktaListResponse } from "./types.js";
+
+/** Default number of items collected when `fetchAll` is set without `maxItems`. */
+export const DEFAULT_MAX_ITEMS = 500;
+
+/**
+ * Hard ceiling on auto-pagination, regardless of the requested `maxItems`.
+ * Keeps a fetch-all over a very large org from overflowing the agent's context.
+ */
+export const HARD_MAX_ITEMS = 2000;
+
+/**
+ * Zod fields for the `fetchAll` / `maxItems` parameters of list tools;
+ * spread into a tool's input shape and pass both to {@link listItems}.
+ */
+export const paginationShape = {
+  fetchAll: z
+    .boolean()
+    .optional()
+    .describe("If true, follow pagination cursors and return every page up to maxItems instead of a single page"),
+  maxItems: z
+    .number()
+    .min(1)
+    .max(HARD_MAX_ITEMS)
+    .optional()
+    .describe(`Maximum number of items to collect when fetchAll is true (default ${DEFAULT_MAX_ITEMS}, max ${HARD_MAX_ITEMS}). Stops at a page boundary so the returned nextCursor resumes exactly.`),
+};
+
+/**
+ * Any client that can issue a GET against Okta — OktaClient or IgaClient.
+ */
+export type PageableClient = Pick<BaseClient, "get">;
+
+/** Options for {@link listItems}. */
+export interface ListOptions {
+  /** Follow `next` links until the list is exhausted or `maxItems` is reached. */
+  fetchAll?: boolean;
+  /** Cap on collected items in fetch-all mode (default 500, clamped to 2000). */
+  maxItems?: number;
+}
 
 /**
  * Parses an RFC 5988 Link header and extracts the `next` URL.
@@ -26,45 +68,128 @@ export function parseLinkHeader(
   return result;
 }
 
+/**
+ * Extracts the `after` cursor from a `next` URL, or undefined if the
+ * URL carries no cursor.
+ */
+export function extractCursor(nextUrl: string | undefined): string | undefined {
+  if (!nextUrl) return undefined;
+  try {
+    return new URL(nextUrl, "http://localhost").searchParams.get("after") ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Converts a single list response into an `{ items, nextCursor }` envelope.
+ *
+ * Handles both the Management API shape (a bare array plus a Link header)
+ * and the IGA shape (`{ data: [...], _links: { next: { href } } }`).
+ */
+export function toListResponse<T = unknown>(resp: AxiosResponse): OktaListResponse<T> {
+  const body = resp.data as unknown;
+  let items: T[];
+  let next: string | undefined;
+
+  if (Array.isArray(body)) {
+    items = body as T[];
+  } else if (body && typeof body === "object" && Array.isArray((body as { data?: unknown }).data)) {
+    const envelope = body as { data: T[]; _links?: { next?: { href?: string } } };
+    items = envelope.data;
+    next = envelope._links?.next?.href;
+  } else {
+    items = [];
+  }
+
+  if (!next) {
+    const linkHeader =
+      typeof resp.headers?.link === "string" ? resp.headers.link : undefined;
+    next = parseLinkHeader(linkHeader).next;
+  }
+
+  const nextCursor = extractCursor(next);
+  return nextCursor ? { items, nextCursor } : { items };
+}
+
 /**
  * Async generator that auto-follows Okta pagination cursors.
  *
  * Yields each page of results as an array. The caller can iterate
  * with `for await (const page of fetchAllPages(...))`.
  *
- * Stops when there is no `next` link in the response headers.
+ * Each follow-up request re-sends the original params with the `after`
+ * cursor from the previous page, so it works against any client base path.
+ * Stops when a response carries no `next` cursor or returns an empty
+ * page (the System Log keeps handing out polling cursors indefinitely).
  */
 export async function* fetchAllPages<T = unknown>(
-  client: OktaClient,
+  client: PageableClient,
   path: string,
   params?: Record<string, unknown>
 ): AsyncGenerator<T[]> {
-  let url: string | undefined = path;
-  let queryParams: Record<string, unknown> | undefined = params;
+  let after = params?.after as string | undefined;
 
-  while (url) {
-    const resp = await client.get<T[]>(url, {
-      params: queryParams,
+  do {
+    const resp = await client.get(path, {
+      params: { ...params, after },
     });
+    const page = toListResponse<T>(resp);
 
-    yield resp.data;
+    if (page.items.length === 0) return;
+    yield page.items;
 
-    const linkHeader =
-      typeof resp.headers?.link === "string" ? resp.headers.link : undefined;
-    const { next } = parseLinkHeader(linkHeader);
-
-    if (next) {
-      // The next URL is absolute — extract the path portion relative to baseUrl
-      try {
-        const nextUrl = new URL(next);
-        url = nextUrl.pathname + nextUrl.search;
-      } catch {
-        url = next;
+    // Guard against an API echoing the same cursor back forever
+    after = page.nextCursor !== after ? page.nextCursor : undefined;
+  } while (after);
+}
+
+/**
+ * Fetches a list endpoint as an `{ items, nextCursor }` envelope.
+ *
+ * By default a single page is returned. With `fetchAll`, pages are
+ * collected until the list ends or `maxItems` is reached. Collection
+ * stops at a page boundary, so `nextCursor` resumes exactly where it
+ * stopped; `truncated` is set only when another page exists.
+ */
+export async function listItems<T = unknown>(
+  client: PageableClient,
+  path: string,
+  params?: Record<string, unknown>,
+  options?: ListOptions
+): Promise<OktaListResponse<T>> {
+  if (!options?.fetchAll) {
+    const resp = await client.get(path, { params });
+    return toListResponse<T>(resp);
+  }
+
+  const maxItems = Math.min(options.maxItems ?? DEFAULT_MAX_ITEMS, HARD_MAX_ITEMS);
+  const items: T[] = [];
+  let after = params?.after as string | undefined;
+
+  for (;;) {
+    let page = toListResponse<T>(await client.get(path, { params: { ...params, after } }));
+
+    if (items.length + page.items.length > maxItems) {
+      if (items.length > 0) {
+        // Leave this page for the caller to fetch with the returned cursor
+        return { items, nextCursor: after, truncated: true };
       }
-      // Subsequent requests use the cursor embedded in the URL, not the original params
-      queryParams = undefined;
-    } else {
-      url = undefined;
+      // A first page larger than the cap: ask again for a page that fits
+      page = toListResponse<T>(
+        await client.get(path, { params: { ...params, after, limit: maxItems } })
+      );
+    }
+
+    items.push(...page.items.slice(0, maxItems));
+    // Guard against an API echoing the same cursor back forever
+    const next = page.items.length > 0 && page.nextCursor !== after ? page.nextCursor : undefined;
+    if (!next) return { items };
+    if (items.length >= maxItems) {
+      // Okta may link to an empty page after a full one; only report truncation if more exists
+      const peek = toListResponse<T>(await client.get(path, { params: { ...params, after: next, limit: 1 } }));
+      return peek.items.length > 0 ? { items, nextCursor: next, truncated: true } : { items };
     }
+    after = next;
   }
 }
@@ -0,0 +1,134 @@
+import fs from "node:fs";
+import { DpopAuth, OAuthAuth, SswsAuth, type AuthStrategy } from "./auth.js";
+
+/**
+ * Multi-org profile file.
+ *
+ * Points OKTA_PROFILES_FILE at a JSON file like:
+ *
+ *   {
+ *     "defaultOrg": "preview",
+ *     "orgs": {
+ *       "preview": { "orgUrl": "https://acme.oktapreview.com", "auth": { "type": "ssws", "apiTokenEnv": "OKTA_PREVIEW_TOKEN" } },
+ *       "prod": {
+ *         "orgUrl": "https://acme.okta.com",
+ *         "auth": { "type": "oauth", "clientId": "0oa…", "privateKeyFile": "/secrets/prod.pem", "scopes": ["okta.users.read"] },
+ *         "requireWriteConfirmation": true
+ *       }
+ *     }
+ *   }
+ *
+ * Secrets can be given inline, read from another env var (`…Env`) or,
+ * for private keys, from a file (`privateKeyFile`).
+ */
+
+export interface SswsProfileAuth {
+  type: "ssws";
+  apiToken?: string;
+  /** Name of an env var holding the API token */
+  apiTokenEnv?: string;
+}
+
+export interface OAuthProfileAuth {
+  type: "oauth";
+  clientId: string;
+  privateKey?: string;
+  /** Name of an env var holding the private key */
+  privateKeyEnv?: string;
+  /** Path to a PEM or JWK file holding the private key */
+  privateKeyFile?: string;
+  /** Extra scopes, merged with the scopes each server requires */
+  scopes?: string[];
+  /** Request DPoP-bound tokens */
+  dpop?: boolean;
+}
+
+export interface OrgProfile {
+  orgUrl: string;
+  auth: SswsProfileAuth | OAuthProfileAuth;
+  /** Refuse write requests unless the tool call passes `confirm: true` */
+  requireWriteConfirmation?: boolean;
+}
+
+export interface OrgProfiles {
+  /** Profile used when a tool call names no org */
+  defaultOrg: string;
+  orgs: Record<string, OrgProfile>;
+}
+
+/**
+ * Loads the profile file named by OKTA_PROFILES_FILE (or `path`).
+ * Returns undefined when no profile file is configured, in which case
+ * clients fall back to the single-org OKTA_* environment variables.
+ */
+export function loadOrgProfiles(path = process.env.OKTA_PROFILES_FILE): OrgProfiles | undefined {
+  if (!path) return undefined;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(
+      `Could not read Okta profile file ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const file = raw as Partial<OrgProfiles>;
+  const names = Object.keys(file.orgs ?? {});
+  if (names.length === 0) {
+    throw new Error(`Okta profile file ${path} must define at least one org under "orgs".`);
+  }
+
+  for (const name of names) {
+    const profile = file.orgs![name];
+    if (!profile?.orgUrl || !profile.auth?.type) {
+      throw new Error(`Okta profile "${name}" in ${path} needs an orgUrl and an auth.type.`);
+    }
+  }
+
+  const defaultOrg = file.defaultOrg ?? names[0];
+  if (!file.orgs![defaultOrg]) {
+    throw new Error(`defaultOrg "${defaultOrg}" in ${path} is not defined under "orgs".`);
+  }
+
+  return { defaultOrg, orgs: file.orgs! };
+}
+
+/**
+ * Builds the auth strategy for a profile. `requiredScopes` are the
+ * scopes the calling server needs; OAuth profiles add their own.
+ */
+export function authFromProfile(
+  name: string,
+  profile: OrgProfile,
+  requiredScopes: string[],
+): AuthStrategy {
+  const orgUrl = profile.orgUrl.replace(/\/+$/, "");
+  const auth = profile.auth;
+
+  if (auth.type === "ssws") {
+    const token = auth.apiToken ?? (auth.apiTokenEnv ? process.env[auth.apiTokenEnv] : undefined);
+    if (!token) {
+      throw new Error(`Okta profile "${name}" has no API token (set apiToken or apiTokenEnv).`);
+    }
+    return new SswsAuth(token);
+  }
+
+  const privateKey =
+    auth.privateKey ??
+    (auth.privateKeyEnv ? process.env[auth.privateKeyEnv] : undefined) ??
+    (auth.privateKeyFile ? fs.readFileSync(auth.privateKeyFile, "utf8") : undefined);
+  if (!privateKey) {
+    throw new Error(
+      `Okta profile "${name}" has no private key (set privateKey, privateKeyEnv or privateKeyFile).`,
+    );
+  }
+
+  const scopes = [...new Set([...requiredScopes, ...(auth.scopes ?? [])])];
+  if (scopes.length === 0) {
+    throw new Error(`Okta profile "${name}" uses OAuth 2.0 but no scopes were requested.`);
+  }
+
+  const config = { orgUrl, clientId: auth.clientId, privateKey, scopes };
+  return auth.dpop ? new DpopAuth(config) : new OAuthAuth(config);
+}
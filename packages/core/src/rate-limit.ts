@@ -0,0 +1,206 @@
+import type { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+
+/**
+ * Proactive rate-limit governor driven by Okta's X-Rate-Limit-* headers.
+ *
+ * Okta reports `X-Rate-Limit-Limit`, `-Remaining` and `-Reset` on every
+ * response, per endpoint bucket. The governor records them per endpoint
+ * family (/users, /logs, /apps …) and, before each request:
+ *
+ *  - lets it through while the bucket has comfortable headroom,
+ *  - paces requests across the rest of the window once headroom drops
+ *    to the reserve size, and
+ *  - holds requests until the window resets once only the reserve is left.
+ *
+ * The reserve keeps bulk tool calls from exhausting limits that are
+ * shared with human admins using the Admin Console.
+ */
+
+/** Default share of each bucket's limit held in reserve, in percent. */
+const DEFAULT_RESERVE_PERCENT = 10;
+
+/** Extra wait after the advertised reset, to absorb clock skew. */
+const RESET_MARGIN_MS = 250;
+
+export interface RateLimitGovernorOptions {
+  /**
+   * Percentage of each bucket's limit to leave untouched (0–90).
+   * Defaults to OKTA_RATE_LIMIT_RESERVE, or 10.
+   */
+  reservePercent?: number;
+}
+
+/** Current state of one endpoint-family bucket. */
+export interface RateLimitBucket {
+  /** Endpoint family, e.g. `/users` or `/governance/campaigns` */
+  key: string;
+  limit: number;
+  remaining: number;
+  /** When the current window resets (ISO 8601) */
+  resetAt: string;
+}
+
+interface BucketState {
+  limit: number;
+  remaining: number;
+  resetAtMs: number;
+  /** Earliest time the next paced request may go, so concurrent callers queue up */
+  nextSlotMs: number;
+}
+
+export class RateLimitGovernor {
+  readonly reservePercent: number;
+  private readonly buckets = new Map<string, BucketState>();
+
+  constructor(options?: RateLimitGovernorOptions) {
+    const envReserve = process.env.OKTA_RATE_LIMIT_RESERVE
+      ? Number(process.env.OKTA_RATE_LIMIT_RESERVE)
+      : NaN;
+    const reserve =
+      options?.reservePercent ??
+      (Number.isFinite(envReserve) ? envReserve : DEFAULT_RESERVE_PERCENT);
+    this.reservePercent = Math.min(Math.max(reserve, 0), 90);
+  }
+
+  /**
+   * Waits until a request to `key` may be sent without eating into the
+   * reserve, then counts it against the bucket.
+   */
+  async acquire(key: string): Promise<void> {
+    for (;;) {
+      const bucket = this.buckets.get(key);
+      const now = Date.now();
+      if (!bucket || now >= bucket.resetAtMs) {
+        return;
+      }
+
+      const reserve = Math.ceil((bucket.limit * this.reservePercent) / 100);
+      const headroom = bucket.remaining - reserve;
+
+      if (headroom <= 0) {
+        const waitMs = bucket.resetAtMs - now + RESET_MARGIN_MS;
+        process.stderr.write(
+          `[okta-mcp] Rate-limit reserve reached for ${key} (${bucket.remaining}/${bucket.limit} left). Waiting ${Math.ceil(waitMs / 1000)}s for reset\n`,
+        );
+        await sleep(waitMs);
+        continue;
+      }
+
+      bucket.remaining--;
+      if (headroom <= reserve) {
+        // Spread the remaining headroom evenly over the rest of the window.
+        // Each caller takes the next free slot and pushes it forward, so
+        // concurrent callers are spaced out instead of waking together.
+        const interval = Math.floor((bucket.resetAtMs - now) / headroom);
+        const slot = Math.max(now, bucket.nextSlotMs);
+        bucket.nextSlotMs = slot + interval;
+        await sleep(slot - now);
+      }
+      return;
+    }
+  }
+
+  /** Records the rate-limit headers of a response against its bucket. */
+  record(key: string, headers: Record<string, unknown> | undefined): void {
+    const limit = parseHeader(headers?.["x-rate-limit-limit"]);
+    const remaining = parseHeader(headers?.["x-rate-limit-remaining"]);
+    const reset = parseHeader(headers?.["x-rate-limit-reset"]);
+    if (limit === undefined || remaining === undefined || reset === undefined || limit <= 0) {
+      return;
+    }
+
+    const nextSlotMs = this.buckets.get(key)?.nextSlotMs ?? 0;
+    this.buckets.set(key, { limit, remaining, resetAtMs: reset * 1000, nextSlotMs });
+  }
+
+  /** Snapshot of every bucket seen so far, for diagnostics. */
+  snapshot(): RateLimitBucket[] {
+    return [...this.buckets.entries()]
+      .map(([key, b]) => ({
+        key,
+        limit: b.limit,
+        remaining: b.remaining,
+        resetAt: new Date(b.resetAtMs).toISOString(),
+      }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+}
+
+/**
+ * Maps a request to its endpoint family: the first path segment under
+ * `/api/v1`, or the first two under `/api/v1/governance`.
+ */
+export function rateLimitBucketKey(config: { baseURL?: string; url?: string }): string {
+  const url = config.url ?? "";
+  const full = /^https?:\/\//i.test(url)
+    ? url
+    : `${(config.baseURL ?? "").replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+
+  let pathname: string;
+  try {
+    pathname = new URL(full).pathname;
+  } catch {
+    pathname = full.split("?")[0];
+  }
+
+  const segments = pathname.replace(/^\/api\/v1\/?/, "").split("/").filter(Boolean);
+  const depth = segments[0] === "governance" ? 2 : 1;
+  return "/" + segments.slice(0, depth).join("/");
+}
+
+/**
+ * Attaches a governor to an Axios instance: requests wait on
+ * {@link RateLimitGovernor.acquire} and every response (including
+ * error responses) feeds its headers back into the governor.
+ *
+ * Attach before the 429 retry interceptor so a rate-limited response
+ * updates the bucket before the retry is scheduled.
+ */
+export function attachRateLimitGovernor(
+  instance: AxiosInstance,
+  governor: RateLimitGovernor,
+): void {
+  instance.interceptors.request.use(async (config: InternalAxiosRequestConfig) => {
+    await governor.acquire(rateLimitBucketKey(config));
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response: AxiosResponse) => {
+      governor.record(rateLimitBucketKey(response.config), response.headers);
+      return response;
+    },
+    (error: AxiosError) => {
+      if (error.config && error.response) {
+        governor.record(rateLimitBucketKey(error.config), error.response.headers);
+      }
+      return Promise.reject(error);
+    },
+  );
+}
+
+const orgGovernors = new Map<string, RateLimitGovernor>();
+
+/**
+ * Returns the process-wide governor for an org, so every client talking
+ * to the same org (e.g. OktaClient and IgaClient) shares one view of its
+ * rate limits.
+ */
+export function governorForOrg(orgUrl: string): RateLimitGovernor {
+  let governor = orgGovernors.get(orgUrl);
+  if (!governor) {
+    governor = new RateLimitGovernor();
+    orgGovernors.set(orgUrl, governor);
+  }
+  return governor;
+}
+
+function parseHeader(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,140 @@
+import axios from "axios";
+import { OktaApiError, OktaRetryExhaustedError, OKTA_ERROR_CODES } from "./errors.js";
+import type { RetryInfo } from "./backoff.js";
+
+/**
+ * Maps errors thrown by tool handlers to structured MCP tool results.
+ *
+ * Without this, the MCP SDK turns a thrown error into a bare message and
+ * the Okta error code, causes and errorId are lost. Tool results built
+ * here set `isError: true` and carry a JSON body the agent can act on.
+ */
+
+/** Short remediation hints for the most common Okta error codes. */
+const REMEDIATION_HINTS: Record<string, string> = {
+  E0000001:
+    "Okta rejected one or more fields. Fix the fields listed in `causes` and retry.",
+  E0000006:
+    "The service app or token lacks permission. Check that the required OAuth scope is granted and that the app has an admin role covering this resource.",
+  E0000007:
+    "The ID does not exist in this org. Use the matching list or search tool to find the correct ID.",
+  E0000038:
+    "The user's current status does not allow this operation. Check the status with okta_get_user (e.g. deactivate before deleting, activate STAGED users first).",
+};
+
+/** Structured error payload returned to the agent. */
+export interface ToolErrorDetail {
+  /** HTTP status of the failed request, if a response was received */
+  status?: number;
+  /** Okta error code, e.g. E0000007 */
+  errorCode?: string;
+  /** Human-readable summary */
+  summary: string;
+  /** Field-level causes reported by Okta */
+  causes?: string[];
+  /** Okta errorId — quote this in Okta support tickets */
+  errorId?: string;
+  /** Suggested next step for common error codes */
+  hint?: string;
+  /** Retry history, when the request was retried before failing */
+  retry?: RetryInfo;
+}
+
+/** MCP tool result shape for a failed call. */
+export interface ToolErrorResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+  isError: true;
+}
+
+/** Builds the structured error payload for any thrown value. */
+export function describeToolError(err: unknown): ToolErrorDetail {
+  if (err instanceof OktaApiError) {
+    const friendly = OKTA_ERROR_CODES[err.errorCode];
+    return stripUndefined({
+      status: err.status,
+      errorCode: err.errorCode,
+      summary: friendly ? `${friendly} — ${err.errorSummary}` : err.errorSummary,
+      causes: err.errorCauses.length
+        ? err.errorCauses.map((c) => c.errorSummary)
+        : undefined,
+      errorId: err.errorId || undefined,
+      hint: REMEDIATION_HINTS[err.errorCode],
+      retry: err.retry,
+    });
+  }
+
+  if (err instanceof OktaRetryExhaustedError) {
+    return stripUndefined({
+      status: err.status,
+      summary: err.message,
+      retry: err.retry,
+    });
+  }
+
+  if (axios.isAxiosError(err)) {
+    return stripUndefined({
+      status: err.response?.status,
+      summary: err.code ? `${err.code}: ${err.message}` : err.message,
+    });
+  }
+
+  return { summary: err instanceof Error ? err.message : String(err) };
+}
+
+/** Converts any thrown value into an `isError: true` MCP tool result. */
+export function toToolErrorResult(err: unknown): ToolErrorResult {
+  return {
+    content: [
+      { type: "text", text: JSON.stringify({ error: describeToolError(err) }, null, 2) },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Wraps a tool handler so any thrown error is returned as a structured
+ * `isError` result instead of propagating to the MCP SDK.
+ */
+export function withToolErrors<A extends unknown[], R>(
+  handler: (...args: A) => R | Promise<R>,
+): (...args: A) => Promise<R | ToolErrorResult> {
+  return async (...args: A) => {
+    try {
+      return await handler(...args);
+    } catch (err: unknown) {
+      return toToolErrorResult(err);
+    }
+  };
+}
+
+/**
+ * Minimal structural view of an MCP server: `tool()` always takes the
+ * handler as its last argument. Declared as a method so McpServer's typed
+ * overloads stay assignable to it.
+ */
+export interface ToolRegistrar {
+  tool(...args: unknown[]): unknown;
+}
+
+/**
+ * Routes every tool registered on `server` from now on through
+ * {@link withToolErrors}. Call once, right after creating the server and
+ * before any register*Tools function.
+ */
+export function installToolErrorHandling(server: ToolRegistrar): void {
+  const register = server.tool.bind(server);
+  server.tool = (...args: unknown[]) => {
+    const handler = args[args.length - 1];
+    if (typeof handler === "function") {
+      args[args.length - 1] = withToolErrors(handler as (...a: unknown[]) => unknown);
+    }
+    return register(...args);
+  };
+}
+
+function stripUndefined<T extends object>(obj: T): T {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== undefined),
+  ) as T;
+}
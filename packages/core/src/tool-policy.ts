@@ -0,0 +1,124 @@
+import fs from "node:fs";
+import type { ToolRegistrar } from "./tool-errors.js";
+
+/**
+ * Server-wide tool policy: read-only mode and allow/deny lists.
+ *
+ * Configured from OKTA_TOOL_POLICY_FILE (JSON with the same fields as
+ * {@link ToolPolicy}) and/or environment variables:
+ *
+ *  - OKTA_READ_ONLY=true        expose only read tools, refuse HTTP writes
+ *  - OKTA_TOOLS_ALLOW=a,b*      register only tools matching these globs
+ *  - OKTA_TOOLS_DENY=okta_delete_*   never register tools matching these globs
+ *  - OKTA_DRY_RUN=true          preview every write instead of sending it
+ *
+ * Env lists are added to those in the file; OKTA_READ_ONLY and
+ * OKTA_DRY_RUN override the file's flags. Deny always wins over allow.
+ */
+export interface ToolPolicy {
+  /** Expose only read tools and refuse any non-GET request at runtime */
+  readOnly: boolean;
+  /** Treat every write tool call as a dry run */
+  dryRun: boolean;
+  /** Tool-name globs to register; empty means all */
+  allow: string[];
+  /** Tool-name globs never to register */
+  deny: string[];
+}
+
+/**
+ * Tool names treated as read-only when `readOnly` is set. Anything else
+ * is hidden; a write that slips through is still refused by the client.
+ */
+const READ_ONLY_TOOL_PATTERNS = [
+  "okta_list_*",
+  "okta_get_*",
+  "okta_iga_list_*",
+  "okta_iga_get_*",
+];
+
+let cachedPolicy: ToolPolicy | undefined;
+
+/**
+ * Loads the tool policy from OKTA_TOOL_POLICY_FILE and env vars.
+ * The result is cached for the life of the process.
+ */
+export function loadToolPolicy(): ToolPolicy {
+  if (cachedPolicy) return cachedPolicy;
+
+  let file: Partial<ToolPolicy> = {};
+  const path = process.env.OKTA_TOOL_POLICY_FILE;
+  if (path) {
+    try {
+      file = JSON.parse(fs.readFileSync(path, "utf8")) as Partial<ToolPolicy>;
+    } catch (err: unknown) {
+      throw new Error(
+        `Could not read tool policy file ${path}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  cachedPolicy = {
+    readOnly: envFlag("OKTA_READ_ONLY") ?? file.readOnly === true,
+    dryRun: envFlag("OKTA_DRY_RUN") ?? file.dryRun === true,
+    allow: [...(file.allow ?? []), ...splitList(process.env.OKTA_TOOLS_ALLOW)],
+    deny: [...(file.deny ?? []), ...splitList(process.env.OKTA_TOOLS_DENY)],
+  };
+  return cachedPolicy;
+}
+
+/** Whether a tool should be registered under `policy`. */
+export function isToolAllowed(name: string, policy: ToolPolicy): boolean {
+  if (policy.deny.some((glob) => matchesGlob(name, glob))) return false;
+  if (policy.allow.length > 0 && !policy.allow.some((glob) => matchesGlob(name, glob))) {
+    return false;
+  }
+  if (policy.readOnly && !isReadOnlyToolName(name)) {
+    return false;
+  }
+  return true;
+}
+
+/** Whether `name` follows the naming of a read-only tool (list/get). */
+export function isReadOnlyToolName(name: string): boolean {
+  return READ_ONLY_TOOL_PATTERNS.some((glob) => matchesGlob(name, glob));
+}
+
+/**
+ * Skips registration of every tool on `server` that `policy` does not
+ * allow. Call right after creating the server, before any
+ * register*Tools function.
+ */
+export function installToolPolicy(
+  server: ToolRegistrar,
+  policy: ToolPolicy = loadToolPolicy(),
+): void {
+  const register = server.tool.bind(server);
+  server.tool = (...args: unknown[]) => {
+    const name = args[0] as string;
+    if (!isToolAllowed(name, policy)) {
+      process.stderr.write(`[okta-mcp] Tool ${name} disabled by tool policy\n`);
+      return undefined;
+    }
+    return register(...args);
+  };
+}
+
+/** Matches `name` against a glob supporting `*` and `?`. */
+function matchesGlob(name: string, glob: string): boolean {
+  const pattern = glob
+    .split("")
+    .map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${pattern}$`).test(name);
+}
+
+/** Reads a boolean env var; undefined when unset or empty. */
+function envFlag(name: string): boolean | undefined {
+  const value = process.env[name];
+  return value !== undefined && value !== "" ? value.toLowerCase() === "true" : undefined;
+}
+
+function splitList(value: string | undefined): string[] {
+  return value?.split(",").map((s) => s.trim()).filter(Boolean) ?? [];
+}
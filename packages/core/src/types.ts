@@ -70,6 +70,19 @@ export interface OktaPolicy {
   [key: string]: unknown;
 }
 
+/** Rule within an org policy, returned by /api/v1/policies/{id}/rules */
+export interface OktaPolicyRule {
+  id: string;
+  name: string;
+  type: string;
+  status: string;
+  priority: number;
+  system: boolean;
+  conditions?: Record<string, unknown>;
+  actions?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
 /** Standard Okta error response shape */
 export interface OktaErrorResponse {
   errorCode: string;
@@ -82,7 +95,10 @@ export interface OktaErrorResponse {
 /** Wrapper for paginated list responses */
 export interface OktaListResponse<T> {
   items: T[];
+  /** Pass as `after` to fetch the next page; absent on the last page. */
   nextCursor?: string;
+  /** Set when auto-pagination stopped at its item cap. */
+  truncated?: boolean;
 }
 
 /* ── IGA (Identity Governance & Administration) ────────────── */
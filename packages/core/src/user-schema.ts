@@ -0,0 +1,283 @@
+import type { OktaClient } from "./client.js";
+import type { OktaUser } from "./types.js";
+
+/** One attribute definition from /meta/schemas/user/{schemaId}. */
+export interface UserSchemaProperty {
+  title?: string;
+  description?: string;
+  type: "string" | "boolean" | "number" | "integer" | "array";
+  format?: string;
+  pattern?: string;
+  enum?: unknown[];
+  /** Display titles for enum values */
+  oneOf?: { const: unknown; title: string }[];
+  minLength?: number;
+  maxLength?: number;
+  items?: { type: string; enum?: unknown[] };
+  required?: boolean;
+  mutability?: string;
+  master?: { type: string; priority?: { type: string; value: string }[] };
+  [key: string]: unknown;
+}
+
+/** The user schema as returned by Okta. */
+export interface UserSchema {
+  id: string;
+  name?: string;
+  title?: string;
+  definitions: {
+    base: { properties: Record<string, UserSchemaProperty>; required?: string[] };
+    custom: { properties: Record<string, UserSchemaProperty>; required?: string[] };
+  };
+  [key: string]: unknown;
+}
+
+/** A schema attribute flattened out of the base/custom split. */
+export interface UserAttribute {
+  name: string;
+  origin: "base" | "custom";
+  required: boolean;
+  property: UserSchemaProperty;
+}
+
+/**
+ * Fetches the user schema for a user type and flattens base and custom
+ * attributes into one map. Without a type ID, or with `default`, the
+ * default user type's schema is used.
+ */
+export async function fetchUserAttributes(
+  client: OktaClient,
+  userTypeId?: string,
+): Promise<Map<string, UserAttribute>> {
+  const schemaId = await schemaIdForType(client, userTypeId);
+  const resp = await client.get<UserSchema>(`/meta/schemas/user/${encodeURIComponent(schemaId)}`);
+  const attributes = new Map<string, UserAttribute>();
+
+  for (const origin of ["base", "custom"] as const) {
+    const definition = resp.data.definitions?.[origin];
+    if (!definition) continue;
+    const required = new Set(definition.required ?? []);
+    for (const [name, property] of Object.entries(definition.properties ?? {})) {
+      attributes.set(name, {
+        name,
+        origin,
+        required: required.has(name) || property.required === true,
+        property,
+      });
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Credential providers whose users are mastered outside Okta, by a
+ * directory or an app such as an HR system. IMPORT, FEDERATION and SOCIAL
+ * users are still mastered by Okta.
+ */
+const EXTERNAL_PROVIDERS = new Set(["ACTIVE_DIRECTORY", "LDAP", "APP"]);
+
+/** Whether a user's profile is mastered by a directory or app rather than Okta. */
+export function hasExternalSource(user: Pick<OktaUser, "credentials">): boolean {
+  const provider = (user.credentials?.provider ?? {}) as { type?: string };
+  return provider.type !== undefined && EXTERNAL_PROVIDERS.has(provider.type);
+}
+
+/**
+ * Whether an attribute's value comes from an external source (an HR
+ * system or directory) rather than Okta, and so can't be changed in Okta.
+ * An app at the top of an OVERRIDE priority list always masters it. The
+ * default, PROFILE_MASTER, follows the user's profile master, so the
+ * attribute is externally mastered only for users with
+ * `externalSource` set (see {@link hasExternalSource}).
+ */
+export function isSourceMastered(
+  attribute: UserAttribute,
+  options: { externalSource?: boolean } = {},
+): boolean {
+  const master = attribute.property.master;
+  if (!master || master.type === "PROFILE_MASTER") return options.externalSource === true;
+  return master.type === "OVERRIDE" && master.priority?.[0]?.type === "APP";
+}
+
+/**
+ * Checks a profile against the schema attributes: required attributes,
+ * unknown and read-only attributes, types, enums, lengths, patterns and
+ * common formats. With `partial` (a profile update), required attributes
+ * that are absent are not reported. Returns one message per problem; an
+ * empty list means the profile is valid.
+ */
+export function validateProfile(
+  profile: Record<string, unknown>,
+  attributes: Map<string, UserAttribute>,
+  options: { partial?: boolean } = {},
+): string[] {
+  const errors: string[] = [];
+
+  for (const attribute of attributes.values()) {
+    const value = profile[attribute.name];
+    const skip = options.partial && value === undefined;
+    if (attribute.required && !skip && isMissing(value)) {
+      errors.push(`${attribute.name} is required`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(profile)) {
+    if (isMissing(value)) continue;
+    const attribute = attributes.get(name);
+    if (!attribute) {
+      errors.push(`${name} is not an attribute of the user schema`);
+      continue;
+    }
+    if (attribute.property.mutability === "READ_ONLY") {
+      errors.push(`${name} is read-only`);
+      continue;
+    }
+    errors.push(...checkValue(name, value, attribute.property));
+  }
+  return errors;
+}
+
+/**
+ * Checks a profile update for `user` before it is sent: validates it
+ * against the user type's schema as a partial profile, and rejects
+ * attributes a directory or HR source masters for this user. Returns one
+ * message per problem.
+ */
+export async function checkProfileUpdate(
+  client: OktaClient,
+  user: OktaUser,
+  profile: Record<string, unknown>,
+): Promise<string[]> {
+  const attributes = await fetchUserAttributes(client, user.type?.id);
+  const problems = validateProfile(profile, attributes, { partial: true });
+
+  const externalSource = hasExternalSource(user);
+  const mastered = Object.keys(profile).filter((name) => {
+    const attribute = attributes.get(name);
+    return attribute !== undefined && isSourceMastered(attribute, { externalSource });
+  });
+  if (mastered.length > 0) {
+    const provider = (user.credentials?.provider ?? {}) as { type?: string; name?: string };
+    const source = provider.name ?? provider.type ?? "an app";
+    problems.push(
+      `${mastered.join(", ")} ${mastered.length === 1 ? "is" : "are"} mastered outside Okta ` +
+        `(${source}); change ${mastered.length === 1 ? "it" : "them"} there instead`,
+    );
+  }
+  return problems;
+}
+
+/**
+ * Applies a partial profile update after {@link checkProfileUpdate}
+ * passes, throwing an Error that lists every problem otherwise. Returns
+ * the updated user.
+ */
+export async function updateUserProfile(
+  client: OktaClient,
+  userIdOrLogin: string,
+  profile: Record<string, unknown>,
+): Promise<OktaUser> {
+  const current = await client.get<OktaUser>(`/users/${encodeURIComponent(userIdOrLogin)}`);
+  const problems = await checkProfileUpdate(client, current.data, profile);
+  if (problems.length > 0) {
+    throw new Error(`Cannot update user ${userIdOrLogin}: ${problems.join("; ")}.`);
+  }
+  const resp = await client.post<OktaUser>(`/users/${encodeURIComponent(current.data.id)}`, { profile });
+  return resp.data;
+}
+
+/**
+ * Converts a string (e.g. a CSV cell) to the attribute's schema type.
+ * Arrays are split on semicolons. Values that cannot be converted are
+ * returned unchanged so that validation reports them.
+ */
+export function coerceValue(raw: string, property: UserSchemaProperty | undefined): unknown {
+  switch (property?.type) {
+    case "boolean":
+      return raw.toLowerCase() === "true" ? true : raw.toLowerCase() === "false" ? false : raw;
+    case "integer":
+    case "number": {
+      const n = Number(raw);
+      return raw.trim() !== "" && Number.isFinite(n) ? n : raw;
+    }
+    case "array":
+      return raw.split(";").map((s) => s.trim()).filter(Boolean)
+        .map((item) => coerceValue(item, property.items as UserSchemaProperty | undefined));
+    default:
+      return raw;
+  }
+}
+
+/* ====================================================================
+ * Internal helpers
+ * ==================================================================== */
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:\S+$/i,
+  "country-code": /^[A-Z]{2}$/,
+  "language-code": /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/,
+  locale: /^[a-z]{2,3}(_[A-Z]{2})?$/,
+};
+
+/** Resolves a user type ID to the ID of its schema. */
+async function schemaIdForType(client: OktaClient, userTypeId: string | undefined): Promise<string> {
+  if (!userTypeId || userTypeId === "default") return "default";
+  const resp = await client.get<{ _links?: { schema?: { href?: string } } }>(
+    `/meta/types/user/${encodeURIComponent(userTypeId)}`,
+  );
+  const href = resp.data._links?.schema?.href;
+  return href ? href.slice(href.lastIndexOf("/") + 1) : "default";
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function checkValue(name: string, value: unknown, property: UserSchemaProperty): string[] {
+  const errors: string[] = [];
+  const type = property.type;
+
+  if (type === "array") {
+    if (!Array.isArray(value)) return [`${name} must be an array`];
+    for (const item of value) {
+      if (property.items?.enum && !property.items.enum.includes(item)) {
+        errors.push(`${name} contains ${JSON.stringify(item)}, not one of ${JSON.stringify(property.items.enum)}`);
+      }
+    }
+    return errors;
+  }
+  if (type === "boolean" && typeof value !== "boolean") return [`${name} must be true or false`];
+  if (type === "integer" && !Number.isInteger(value)) return [`${name} must be an integer`];
+  if (type === "number" && typeof value !== "number") return [`${name} must be a number`];
+  if (type === "string" && typeof value !== "string") return [`${name} must be a string`];
+
+  if (property.enum && !property.enum.includes(value)) {
+    errors.push(`${name} must be one of ${JSON.stringify(property.enum)}`);
+  }
+  if (typeof value === "string") {
+    if (property.minLength !== undefined && value.length < property.minLength) {
+      errors.push(`${name} must be at least ${property.minLength} characters`);
+    }
+    if (property.maxLength !== undefined && value.length > property.maxLength) {
+      errors.push(`${name} must be at most ${property.maxLength} characters`);
+    }
+    const format = property.format ? FORMAT_PATTERNS[property.format] : undefined;
+    if (format && !format.test(value)) {
+      errors.push(`${name} is not a valid ${property.format}`);
+    }
+    if (property.pattern && !matchesPattern(value, property.pattern)) {
+      errors.push(`${name} does not match the pattern ${property.pattern}`);
+    }
+  }
+  return errors;
+}
+
+/** Tests a schema pattern; patterns JavaScript cannot compile are skipped. */
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`).test(value);
+  } catch {
+    return true;
+  }
+}
@@ -1,23 +1,35 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { IgaClient } from "@okta-mcp/core";
+import {
+  IgaClient,
+  ClientPool,
+  installDryRun,
+  installOrgRouting,
+  installToolErrorHandling,
+  installToolPolicy,
+} from "@okta-mcp/core";
 import { registerCampaignTools } from "./tools/campaigns.js";
 import { registerEntitlementTools } from "./tools/entitlements.js";
 import { registerBundleTools } from "./tools/bundles.js";
 import { registerAccessRequestTools } from "./tools/access-requests.js";
 
-const client = new IgaClient({
+const clients = new ClientPool((options) => new IgaClient(options), {
   requiredScopes: [
     "okta.users.read",
     "okta.groups.read",
     "okta.apps.read",
   ],
 });
+const client = clients.routed();
 const server = new McpServer({
   name: "okta-mcp-governance",
   version: "0.1.0",
 });
+installToolPolicy(server);
+installToolErrorHandling(server);
+installOrgRouting(server, clients);
+installDryRun(server);
 
 registerCampaignTools(server, client);
 registerEntitlementTools(server, client);
@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { IgaClient } from "@okta-mcp/core";
+import { IgaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 export function registerAccessRequestTools(server: McpServer, client: IgaClient): void {
   server.tool(
@@ -27,13 +27,17 @@ export function registerAccessRequestTools(server: McpServer, client: IgaClient)
         .string()
         .optional()
         .describe("Pagination cursor from a previous response to fetch the next page of results"),
+      ...paginationShape,
     },
-    async ({ status, requesterId, limit, after }) => {
-      const resp = await client.get("/requests", {
-        params: { status, requesterId, limit, after },
-      });
+    async ({ status, requesterId, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/requests",
+        { status, requesterId, limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { IgaClient } from "@okta-mcp/core";
+import { IgaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 export function registerBundleTools(server: McpServer, client: IgaClient): void {
   server.tool(
@@ -17,13 +17,17 @@ export function registerBundleTools(server: McpServer, client: IgaClient): void
         .string()
         .optional()
         .describe("Pagination cursor from a previous response to fetch the next page of bundles"),
+      ...paginationShape,
     },
-    async ({ limit, after }) => {
-      const resp = await client.get("/bundles", {
-        params: { limit, after },
-      });
+    async ({ limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/bundles",
+        { limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
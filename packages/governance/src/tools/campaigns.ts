@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { IgaClient } from "@okta-mcp/core";
+import { IgaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 export function registerCampaignTools(server: McpServer, client: IgaClient): void {
   server.tool(
@@ -23,13 +23,17 @@ export function registerCampaignTools(server: McpServer, client: IgaClient): voi
         .string()
         .optional()
         .describe("Pagination cursor from a previous response to fetch the next page of results"),
+      ...paginationShape,
     },
-    async ({ status, limit, after }) => {
-      const resp = await client.get("/campaigns", {
-        params: { status, limit, after },
-      });
+    async ({ status, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/campaigns",
+        { status, limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
@@ -151,13 +155,17 @@ export function registerCampaignTools(server: McpServer, client: IgaClient): voi
         .string()
         .optional()
         .describe("Pagination cursor from a previous response to fetch the next page of items"),
+      ...paginationShape,
     },
-    async ({ campaignId, limit, after }) => {
-      const resp = await client.get(`/campaigns/${campaignId}/items`, {
-        params: { limit, after },
-      });
+    async ({ campaignId, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        `/campaigns/${campaignId}/items`,
+        { limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { IgaClient } from "@okta-mcp/core";
+import { IgaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 export function registerEntitlementTools(server: McpServer, client: IgaClient): void {
   server.tool(
@@ -17,13 +17,17 @@ export function registerEntitlementTools(server: McpServer, client: IgaClient):
         .string()
         .optional()
         .describe("Pagination cursor from a previous response to fetch the next page of entitlements"),
+      ...paginationShape,
     },
-    async ({ limit, after }) => {
-      const resp = await client.get("/entitlements", {
-        params: { limit, after },
-      });
+    async ({ limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/entitlements",
+        { limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
@@ -61,13 +65,17 @@ export function registerEntitlementTools(server: McpServer, client: IgaClient):
         .string()
         .optional()
         .describe("Pagination cursor from a previous response to fetch the next page of results"),
+      ...paginationShape,
     },
-    async ({ userId, limit, after }) => {
-      const resp = await client.get(`/users/${userId}/entitlements`, {
-        params: { limit, after },
-      });
+    async ({ userId, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        `/users/${userId}/entitlements`,
+        { limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
@@ -1,14 +1,23 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { OktaClient } from "@okta-mcp/core";
+import {
+  OktaClient,
+  ClientPool,
+  installDryRun,
+  installOrgRouting,
+  installToolErrorHandling,
+  installToolPolicy,
+} from "@okta-mcp/core";
 import { registerAuthServerTools } from "./tools/auth-servers.js";
 import { registerScopeTools } from "./tools/scopes.js";
 import { registerClaimTools } from "./tools/claims.js";
 import { registerAuthPolicyTools } from "./tools/auth-policies.js";
 import { registerInlineHookTools } from "./tools/inline-hooks.js";
+import { registerNetworkZoneTools } from "./tools/network-zones.js";
+import { registerOrgPolicyTools } from "./tools/org-policies.js";
 
-const client = new OktaClient({
+const clients = new ClientPool((options) => new OktaClient(options), {
   requiredScopes: [
     "okta.policies.read",
     "okta.policies.manage",
@@ -16,18 +25,29 @@ const client = new OktaClient({
     "okta.authorizationServers.manage",
     "okta.inlineHooks.read",
     "okta.inlineHooks.manage",
+    "okta.networkZones.read",
+    "okta.networkZones.manage",
+    "okta.apps.read",
+    "okta.apps.manage",
   ],
 });
+const client = clients.routed();
 const server = new McpServer({
   name: "okta-mcp-policy",
   version: "0.1.0",
 });
+installToolPolicy(server);
+installToolErrorHandling(server);
+installOrgRouting(server, clients);
+installDryRun(server);
 
 registerAuthServerTools(server, client);
 registerScopeTools(server, client);
 registerClaimTools(server, client);
 registerAuthPolicyTools(server, client);
 registerInlineHookTools(server, client);
+registerNetworkZoneTools(server, client);
+registerOrgPolicyTools(server, client);
 
 const transport = new StdioServerTransport();
 await server.connect(transport);
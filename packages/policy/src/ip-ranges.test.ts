@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { entryContains, entrySize, formatIp, parseIp, parseIpEntry } from "./ip-ranges.js";
+
+describe("parseIp", () => {
+  it("parses IPv4 addresses", () => {
+    assert.deepEqual(parseIp("10.0.0.1"), { version: 4, value: 0x0a000001n });
+    assert.equal(parseIp("256.0.0.1"), undefined);
+    assert.equal(parseIp("10.0.1"), undefined);
+  });
+
+  it("expands :: compression anywhere in an IPv6 address", () => {
+    assert.deepEqual(parseIp("::"), { version: 6, value: 0n });
+    assert.deepEqual(parseIp("::1"), { version: 6, value: 1n });
+    assert.deepEqual(parseIp("2001:db8::"), { version: 6, value: 0x20010db8n << 96n });
+    assert.deepEqual(parseIp("2001:db8::1"), parseIp("2001:db8:0:0:0:0:0:1"));
+  });
+
+  it("rejects malformed IPv6 addresses", () => {
+    assert.equal(parseIp("1::2::3"), undefined);
+    assert.equal(parseIp("1:2:3:4:5:6:7:8:9"), undefined);
+    assert.equal(parseIp("1:2:3:4:5:6:7"), undefined);
+    assert.equal(parseIp("1:2:3:4::5:6:7:8"), undefined);
+    assert.equal(parseIp("12345::"), undefined);
+  });
+
+  it("parses an IPv4 address embedded in IPv6 as two groups", () => {
+    assert.deepEqual(parseIp("::ffff:10.0.0.1"), { version: 6, value: (0xffffn << 32n) | 0x0a000001n });
+    assert.equal(parseIp("::ffff:10.0.0.256"), undefined);
+  });
+});
+
+describe("parseIpEntry", () => {
+  it("turns a single address into a /32 or /128 block", () => {
+    assert.deepEqual(parseIpEntry("1.2.3.4"), {
+      type: "CIDR", value: "1.2.3.4/32", version: 4, start: 0x01020304n, end: 0x01020304n,
+    });
+    assert.equal(parseIpEntry("::1").value, "::1/128");
+  });
+
+  it("computes the bounds of a CIDR block", () => {
+    const entry = parseIpEntry("10.0.0.0/8");
+    assert.equal(entry.start, 0x0a000000n);
+    assert.equal(entry.end, 0x0affffffn);
+    assert.equal(entrySize(entry), 1n << 24n);
+  });
+
+  it("rejects a CIDR block with host bits set and suggests the network", () => {
+    assert.throws(() => parseIpEntry("10.0.0.1/8"), /host bits set; did you mean 10\.0\.0\.0\/8\?/);
+    assert.throws(() => parseIpEntry("2001:db8::1/32"), /host bits set/);
+  });
+
+  it("rejects prefix lengths out of range", () => {
+    assert.throws(() => parseIpEntry("10.0.0.0/33"), /invalid prefix length; use 0-32/);
+    assert.throws(() => parseIpEntry("::/129"), /invalid prefix length; use 0-128/);
+    assert.throws(() => parseIpEntry("10.0.0.0/"), /invalid prefix length/);
+  });
+
+  it("accepts /0 as the whole address space", () => {
+    assert.equal(entrySize(parseIpEntry("0.0.0.0/0")), 1n << 32n);
+    assert.equal(entrySize(parseIpEntry("::/0")), 1n << 128n);
+    assert.throws(() => parseIpEntry("1.0.0.0/0"), /host bits set/);
+  });
+
+  it("parses ranges and rejects reversed ones", () => {
+    const range = parseIpEntry("10.0.0.1 - 10.0.0.9");
+    assert.equal(range.type, "RANGE");
+    assert.equal(range.value, "10.0.0.1-10.0.0.9");
+    assert.equal(entrySize(range), 9n);
+    assert.throws(() => parseIpEntry("10.0.0.9-10.0.0.1"), /starts after it ends/);
+  });
+
+  it("rejects ranges mixing IPv4 and IPv6", () => {
+    assert.throws(() => parseIpEntry("10.0.0.1-::1"), /mixes IPv4 and IPv6/);
+  });
+
+  it("rejects text that is not an address", () => {
+    assert.throws(() => parseIpEntry("example.com"), /not a valid IP address, CIDR block or range/);
+  });
+});
+
+describe("entryContains", () => {
+  it("matches addresses inside the entry of the same version only", () => {
+    const block = parseIpEntry("192.168.0.0/16");
+    assert.equal(entryContains(block, parseIp("192.168.255.255")!), true);
+    assert.equal(entryContains(block, parseIp("192.169.0.0")!), false);
+    assert.equal(entryContains(parseIpEntry("::/0"), parseIp("10.0.0.1")!), false);
+  });
+});
+
+describe("formatIp", () => {
+  it("formats IPv4 dotted and IPv6 uncompressed", () => {
+    assert.equal(formatIp(parseIp("10.0.0.1")!), "10.0.0.1");
+    assert.equal(formatIp(parseIp("2001:db8::1")!), "2001:db8:0:0:0:0:0:1");
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Local parsing and validation of the IP addresses, CIDR blocks and
+ * ranges used by network zones, so bad input is rejected before it
+ * reaches Okta. Addresses are held as bigints to cover IPv4 and IPv6
+ * with the same arithmetic.
+ */
+
+export interface IpAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+/** A zone gateway or proxy entry in Okta's format, with its parsed bounds. */
+export interface IpEntry {
+  type: "CIDR" | "RANGE";
+  value: string;
+  version: 4 | 6;
+  start: bigint;
+  end: bigint;
+}
+
+const BITS = { 4: 32, 6: 128 } as const;
+
+/** Parses an IPv4 or IPv6 address, or returns undefined. */
+export function parseIp(text: string): IpAddress | undefined {
+  const trimmed = text.trim();
+  if (trimmed.includes(":")) {
+    const value = parseIpv6(trimmed);
+    return value === undefined ? undefined : { version: 6, value };
+  }
+  const value = parseIpv4(trimmed);
+  return value === undefined ? undefined : { version: 4, value };
+}
+
+/**
+ * Parses one zone entry: a CIDR block (10.0.0.0/8), a range
+ * (10.0.0.1-10.0.0.9) or a single address, which becomes a /32 or /128
+ * block. Throws an Error explaining what is wrong with invalid input.
+ */
+export function parseIpEntry(text: string): IpEntry {
+  const input = text.trim();
+
+  if (input.includes("/")) {
+    const [addressText, prefixText, ...rest] = input.split("/");
+    const address = parseIp(addressText);
+    const prefix = Number(prefixText);
+    if (!address || rest.length > 0) {
+      throw new Error(`"${input}" is not a valid CIDR block`);
+    }
+    const bits = BITS[address.version];
+    if (!/^\d+$/.test(prefixText) || prefix > bits) {
+      throw new Error(`"${input}" has an invalid prefix length; use 0-${bits}`);
+    }
+    const hostBits = BigInt(bits - prefix);
+    const start = (address.value >> hostBits) << hostBits;
+    if (start !== address.value) {
+      throw new Error(`"${input}" has host bits set; did you mean ${formatIp({ version: address.version, value: start })}/${prefix}?`);
+    }
+    return { type: "CIDR", value: input, version: address.version, start, end: start + (1n << hostBits) - 1n };
+  }
+
+  if (input.includes("-")) {
+    const [fromText, toText, ...rest] = input.split("-");
+    const from = parseIp(fromText);
+    const to = parseIp(toText ?? "");
+    if (!from || !to || rest.length > 0) {
+      throw new Error(`"${input}" is not a valid IP range; use first-last, e.g. 10.0.0.1-10.0.0.9`);
+    }
+    if (from.version !== to.version) {
+      throw new Error(`"${input}" mixes IPv4 and IPv6 addresses`);
+    }
+    if (from.value > to.value) {
+      throw new Error(`"${input}" starts after it ends`);
+    }
+    return {
+      type: "RANGE",
+      value: `${fromText.trim()}-${toText.trim()}`,
+      version: from.version,
+      start: from.value,
+      end: to.value,
+    };
+  }
+
+  const address = parseIp(input);
+  if (!address) {
+    throw new Error(`"${input}" is not a valid IP address, CIDR block or range`);
+  }
+  return {
+    type: "CIDR",
+    value: `${input}/${BITS[address.version]}`,
+    version: address.version,
+    start: address.value,
+    end: address.value,
+  };
+}
+
+/** Number of addresses an entry covers. */
+export function entrySize(entry: IpEntry): bigint {
+  return entry.end - entry.start + 1n;
+}
+
+/** Whether `address` falls inside `entry`. */
+export function entryContains(entry: IpEntry, address: IpAddress): boolean {
+  return entry.version === address.version && address.value >= entry.start && address.value <= entry.end;
+}
+
+export function formatIp(address: IpAddress): string {
+  if (address.version === 4) {
+    return [24n, 16n, 8n, 0n].map((shift) => String((address.value >> shift) & 0xffn)).join(".");
+  }
+  const groups: string[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    groups.push(((address.value >> shift) & 0xffffn).toString(16));
+  }
+  return groups.join(":");
+}
+
+function parseIpv4(text: string): bigint | undefined {
+  const parts = text.split(".");
+  if (parts.length !== 4) return undefined;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return undefined;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+}
+
+function parseIpv6(text: string): bigint | undefined {
+  const halves = text.split("::");
+  if (halves.length > 2) return undefined;
+
+  const toGroups = (half: string): number[] | undefined => {
+    if (half === "") return [];
+    const groups: number[] = [];
+    const parts = half.split(":");
+    for (const [i, part] of parts.entries()) {
+      // An embedded IPv4 address (::ffff:10.0.0.1) counts as two groups
+      if (i === parts.length - 1 && part.includes(".")) {
+        const v4 = parseIpv4(part);
+        if (v4 === undefined) return undefined;
+        groups.push(Number(v4 >> 16n), Number(v4 & 0xffffn));
+      } else if (/^[0-9a-f]{1,4}$/i.test(part)) {
+        groups.push(parseInt(part, 16));
+      } else {
+        return undefined;
+      }
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) return undefined;
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return undefined;
+
+  return [...head, ...new Array(missing).fill(0), ...tail].reduce(
+    (value: bigint, group: number) => (value << 16n) | BigInt(group),
+    0n
+  );
+}
@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { OktaClient } from "@okta-mcp/core";
+import { OktaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 export function registerAuthServerTools(server: McpServer, client: OktaClient): void {
   server.tool(
@@ -10,13 +10,17 @@ export function registerAuthServerTools(server: McpServer, client: OktaClient):
       q: z.string().optional().describe("Search by authorization server name (partial match)"),
       limit: z.number().min(1).max(200).optional().describe("Maximum number of results to return (default 200, max 200)"),
       after: z.string().optional().describe("Pagination cursor from a previous response to fetch the next page"),
+      ...paginationShape,
     },
-    async ({ q, limit, after }) => {
-      const resp = await client.get("/authorizationServers", {
-        params: { q, limit, after },
-      });
+    async ({ q, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/authorizationServers",
+        { q, limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
@@ -0,0 +1,340 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { OktaClient, listItems, paginationShape } from "@okta-mcp/core";
+import { entryContains, entrySize, parseIp, parseIpEntry, type IpEntry } from "../ip-ranges.js";
+
+interface ZoneAddress {
+  type: "CIDR" | "RANGE";
+  value: string;
+}
+
+interface NetworkZone {
+  id: string;
+  name: string;
+  type: "IP" | "DYNAMIC" | "DYNAMIC_V2";
+  status: string;
+  usage: "POLICY" | "BLOCKLIST";
+  gateways?: ZoneAddress[] | null;
+  proxies?: ZoneAddress[] | null;
+  [key: string]: unknown;
+}
+
+/**
+ * Smallest IPv4 prefix and IPv6 prefix a blocklist entry may have without
+ * allowBroadRanges: anything wider risks locking out legitimate users.
+ */
+const BROADEST_BLOCK = { 4: 8, 6: 32 } as const;
+
+const addressListSchema = z.array(z.string());
+
+/**
+ * Parses zone addresses, collecting every invalid one into a single
+ * error. Blocklist entries wider than {@link BROADEST_BLOCK} are refused
+ * unless `allowBroad` is set.
+ */
+function toZoneAddresses(
+  inputs: string[],
+  field: string,
+  options: { blocklist?: boolean; allowBroad?: boolean } = {}
+): ZoneAddress[] {
+  const entries: IpEntry[] = [];
+  const problems: string[] = [];
+  for (const input of inputs) {
+    try {
+      const entry = parseIpEntry(input);
+      const limit = BROADEST_BLOCK[entry.version];
+      const bits = entry.version === 4 ? 32 : 128;
+      if (options.blocklist && !options.allowBroad && entrySize(entry) > 1n << BigInt(bits - limit)) {
+        problems.push(`"${input}" is wider than a /${limit}; pass allowBroadRanges to block it anyway`);
+        continue;
+      }
+      entries.push(entry);
+    } catch (err: unknown) {
+      problems.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${field}:\n- ${problems.join("\n- ")}`);
+  }
+  const unique = new Map(entries.map((entry) => [addressKey(entry.value), { type: entry.type, value: entry.value }]));
+  return [...unique.values()];
+}
+
+/**
+ * Identifies an address by the addresses it covers, so 1.2.3.4 and
+ * 1.2.3.4/32, or two spellings of one IPv6 block, compare equal. Values
+ * that don't parse are compared as written.
+ */
+function addressKey(value: string): string {
+  try {
+    const entry = parseIpEntry(value);
+    return `${entry.version}:${entry.start}-${entry.end}`;
+  } catch {
+    return value;
+  }
+}
+
+export function registerNetworkZoneTools(server: McpServer, client: OktaClient): void {
+  server.tool(
+    "okta_list_network_zones",
+    "List the org's network zones: IP zones (gateway and proxy addresses) and dynamic zones (locations, ASNs, proxy types), each used either in policies or as a blocklist. Sign-on and authentication policy rules reference zones by ID.",
+    {
+      usage: z.enum(["POLICY", "BLOCKLIST"]).optional().describe("Only list zones with this usage"),
+      limit: z.number().min(1).max(200).optional().describe("Maximum number of zones per page (max 200)"),
+      after: z.string().optional().describe("Pagination cursor from a previous response to fetch the next page"),
+      ...paginationShape,
+    },
+    async ({ usage, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/zones",
+        { filter: usage ? `usage eq "${usage}"` : undefined, limit, after },
+        { fetchAll, maxItems }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_get_network_zone",
+    "Retrieve a network zone by ID, including its gateways, proxies or dynamic conditions. Use this to review a zone before updating it.",
+    {
+      zoneId: z.string().describe("Okta network zone ID (e.g. nzo1abcdef)"),
+    },
+    async ({ zoneId }) => {
+      const resp = await client.get(`/zones/${encodeURIComponent(zoneId)}`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_create_ip_zone",
+    "Create an IP network zone from gateway addresses: CIDR blocks (203.0.113.0/24), ranges (203.0.113.10-203.0.113.20) or single IPs, IPv4 or IPv6. Every address is validated locally before anything is sent. Set usage BLOCKLIST to deny sign-ins from these addresses.",
+    {
+      name: z.string().describe("Unique name of the zone"),
+      gateways: addressListSchema.describe("Gateway IPs, CIDR blocks or ranges the zone matches"),
+      proxies: addressListSchema.optional().describe("Trusted proxy IPs, CIDR blocks or ranges in front of the gateways (POLICY zones only)"),
+      usage: z.enum(["POLICY", "BLOCKLIST"]).optional().describe("POLICY (default) for use in policy rules, BLOCKLIST to deny access"),
+      allowBroadRanges: z.boolean().optional().describe("Allow blocklist entries wider than /8 (IPv4) or /32 (IPv6)"),
+    },
+    async ({ name, gateways, proxies, usage, allowBroadRanges }) => {
+      const blocklist = usage === "BLOCKLIST";
+      if (blocklist && proxies && proxies.length > 0) {
+        throw new Error("Blocklist zones can't have proxies.");
+      }
+      const body = {
+        type: "IP",
+        name,
+        usage: usage ?? "POLICY",
+        gateways: toZoneAddresses(gateways, "gateways", { blocklist, allowBroad: allowBroadRanges }),
+        proxies: proxies ? toZoneAddresses(proxies, "proxies") : null,
+      };
+      const resp = await client.post("/zones", body);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_create_dynamic_zone",
+    "Create a dynamic network zone that matches requests by country or region, autonomous system number (ASN), or proxy type such as Tor. Set usage BLOCKLIST to deny sign-ins that match.",
+    {
+      name: z.string().describe("Unique name of the zone"),
+      locations: z
+        .array(z.object({
+          country: z.string().describe("ISO 3166-1 alpha-2 country code, e.g. US"),
+          region: z.string().optional().describe("ISO 3166-2 region code, e.g. US-CA"),
+        }))
+        .optional()
+        .describe("Countries or regions the zone matches"),
+      asns: z.array(z.string().regex(/^\d+$/, "ASNs are numbers")).optional().describe("Autonomous system numbers the zone matches, e.g. [\"13335\"]"),
+      proxyType: z.enum(["ANY", "TorAnonymizer", "NotTorAnonymizer"]).optional().describe("Match any proxy, only Tor, or only non-Tor proxies"),
+      usage: z.enum(["POLICY", "BLOCKLIST"]).optional().describe("POLICY (default) for use in policy rules, BLOCKLIST to deny access"),
+    },
+    async ({ name, locations, asns, proxyType, usage }) => {
+      if (!locations?.length && !asns?.length && !proxyType) {
+        throw new Error("A dynamic zone needs at least one of locations, asns or proxyType.");
+      }
+      const body = {
+        type: "DYNAMIC",
+        name,
+        usage: usage ?? "POLICY",
+        locations: locations ?? null,
+        asns: asns ?? null,
+        proxyType: proxyType ?? null,
+      };
+      const resp = await client.post("/zones", body);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_update_network_zone",
+    "Update a network zone. For IP zones, addGateways and removeGateways change the gateway list incrementally — the quick, safe way to add attacking ranges to a blocklist — while gateways replaces it. New addresses are validated locally. For dynamic zones, locations, asns and proxyType replace the current values. Other fields are left unchanged.",
+    {
+      zoneId: z.string().describe("Okta network zone ID to update"),
+      name: z.string().optional().describe("New zone name"),
+      gateways: addressListSchema.optional().describe("Replace every gateway with these IPs, CIDR blocks or ranges (IP zones)"),
+      addGateways: addressListSchema.optional().describe("IPs, CIDR blocks or ranges to add to the gateways (IP zones)"),
+      removeGateways: addressListSchema.optional().describe("Gateway entries to remove, as addresses, CIDR blocks or ranges; 1.2.3.4 matches a listed 1.2.3.4/32 (IP zones)"),
+      proxies: addressListSchema.optional().describe("Replace every proxy with these IPs, CIDR blocks or ranges (IP policy zones)"),
+      locations: z
+        .array(z.object({ country: z.string(), region: z.string().optional() }))
+        .optional()
+        .describe("Replace the countries or regions (dynamic zones)"),
+      asns: z.array(z.string().regex(/^\d+$/, "ASNs are numbers")).optional().describe("Replace the ASNs (dynamic zones)"),
+      proxyType: z.enum(["ANY", "TorAnonymizer", "NotTorAnonymizer"]).optional().describe("Replace the proxy type (dynamic zones)"),
+      allowBroadRanges: z.boolean().optional().describe("Allow blocklist entries wider than /8 (IPv4) or /32 (IPv6)"),
+    },
+    async ({ zoneId, name, gateways, addGateways, removeGateways, proxies, locations, asns, proxyType, allowBroadRanges }) => {
+      const path = `/zones/${encodeURIComponent(zoneId)}`;
+      const current = (await client.get<NetworkZone>(path)).data;
+      const body: Record<string, unknown> = { ...current, name: name ?? current.name };
+      const ipChanges = gateways ?? addGateways ?? removeGateways ?? proxies;
+      const dynamicChanges = locations ?? asns ?? proxyType;
+
+      if (current.type === "IP") {
+        if (dynamicChanges) {
+          throw new Error(`Zone ${current.name} is an IP zone; locations, asns and proxyType apply to dynamic zones.`);
+        }
+        const blocklist = current.usage === "BLOCKLIST";
+        let list = gateways
+          ? toZoneAddresses(gateways, "gateways", { blocklist, allowBroad: allowBroadRanges })
+          : [...(current.gateways ?? [])];
+        if (removeGateways) {
+          const listed = new Set(list.map((g) => addressKey(g.value)));
+          const removals = toZoneAddresses(removeGateways, "removeGateways");
+          const absent = removals.filter((g) => !listed.has(addressKey(g.value)));
+          if (absent.length > 0) {
+            throw new Error(`Not gateways of zone ${current.name}: ${absent.map((g) => g.value).join(", ")}`);
+          }
+          const removed = new Set(removals.map((g) => addressKey(g.value)));
+          list = list.filter((g) => !removed.has(addressKey(g.value)));
+        }
+        if (addGateways) {
+          const known = new Set(list.map((g) => addressKey(g.value)));
+          list.push(...toZoneAddresses(addGateways, "addGateways", { blocklist, allowBroad: allowBroadRanges })
+            .filter((g) => !known.has(addressKey(g.value))));
+        }
+        body.gateways = list;
+        if (proxies) {
+          body.proxies = toZoneAddresses(proxies, "proxies");
+        }
+      } else {
+        if (ipChanges) {
+          throw new Error(`Zone ${current.name} is a dynamic zone; gateways and proxies apply to IP zones.`);
+        }
+        if (locations) body.locations = locations;
+        if (asns) body.asns = asns;
+        if (proxyType) body.proxyType = proxyType;
+      }
+
+      const resp = await client.put(path, body);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_activate_network_zone",
+    "Activate a network zone so policy rules and the blocklist take it into account.",
+    {
+      zoneId: z.string().describe("Okta network zone ID to activate"),
+    },
+    async ({ zoneId }) => {
+      const resp = await client.post(`/zones/${encodeURIComponent(zoneId)}/lifecycle/activate`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_deactivate_network_zone",
+    "Deactivate a network zone. A deactivated blocklist zone stops blocking, and policy rules treat a deactivated zone as matching nothing. Zones must be deactivated before they can be deleted.",
+    {
+      zoneId: z.string().describe("Okta network zone ID to deactivate"),
+    },
+    async ({ zoneId }) => {
+      const resp = await client.post(`/zones/${encodeURIComponent(zoneId)}/lifecycle/deactivate`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_delete_network_zone",
+    "Delete a deactivated network zone. Okta refuses while a policy rule still references the zone. This action is irreversible.",
+    {
+      zoneId: z.string().describe("Okta network zone ID to delete"),
+    },
+    async ({ zoneId }) => {
+      await client.delete(`/zones/${encodeURIComponent(zoneId)}`);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ deleted: true, zoneId }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_get_zones_for_ip",
+    "Check which IP network zones contain an address, as a gateway or as a proxy, and whether any active blocklist zone blocks it. Dynamic zones match on geolocation and ASN, which can't be evaluated locally; they are listed separately.",
+    {
+      ip: z.string().describe("IPv4 or IPv6 address to check"),
+    },
+    async ({ ip }) => {
+      const address = parseIp(ip);
+      if (!address) {
+        throw new Error(`"${ip}" is not a valid IP address.`);
+      }
+      const zones = await listItems<NetworkZone>(client, "/zones", {}, { fetchAll: true, maxItems: 2000 });
+
+      const contains = (entries: ZoneAddress[] | null | undefined) =>
+        (entries ?? []).filter((entry) => {
+          try {
+            return entryContains(parseIpEntry(entry.value), address);
+          } catch {
+            return false;
+          }
+        }).map((entry) => entry.value);
+
+      const matches = [];
+      for (const zone of zones.items.filter((zone) => zone.type === "IP")) {
+        const gateways = contains(zone.gateways);
+        const proxies = contains(zone.proxies);
+        if (gateways.length > 0 || proxies.length > 0) {
+          matches.push({
+            id: zone.id,
+            name: zone.name,
+            usage: zone.usage,
+            status: zone.status,
+            ...(gateways.length > 0 ? { matchedGateways: gateways } : {}),
+            ...(proxies.length > 0 ? { matchedProxies: proxies } : {}),
+          });
+        }
+      }
+
+      const result = {
+        ip,
+        blocked: matches.some((m) => m.usage === "BLOCKLIST" && m.status === "ACTIVE" && m.matchedGateways),
+        matches,
+        dynamicZonesNotChecked: zones.items
+          .filter((zone) => zone.type !== "IP")
+          .map((zone) => ({ id: zone.id, name: zone.name, usage: zone.usage, status: zone.status })),
+        ...(zones.truncated ? { truncated: "only the first 2000 zones were checked" } : {}),
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+}
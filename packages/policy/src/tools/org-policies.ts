@@ -0,0 +1,453 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  HARD_MAX_ITEMS,
+  OktaApp,
+  OktaClient,
+  OktaPolicy,
+  OktaPolicyRule,
+  listItems,
+  mapWithConcurrency,
+} from "@okta-mcp/core";
+
+const policyTypeEnum = z.enum(["OKTA_SIGN_ON", "PASSWORD", "MFA_ENROLL", "ACCESS_POLICY", "PROFILE_ENROLLMENT"]);
+
+type PolicyType = z.infer<typeof policyTypeEnum>;
+
+/** Rule type for each policy type; only global session policies differ in name. */
+const RULE_TYPES: Record<PolicyType, string> = {
+  OKTA_SIGN_ON: "SIGN_ON",
+  PASSWORD: "PASSWORD",
+  MFA_ENROLL: "MFA_ENROLL",
+  ACCESS_POLICY: "ACCESS_POLICY",
+  PROFILE_ENROLLMENT: "PROFILE_ENROLLMENT",
+};
+
+/** A policy or policy rule, as far as ordering is concerned. */
+interface Prioritized {
+  id: string;
+  name: string;
+  priority: number;
+  system: boolean;
+}
+
+/** Reads every page of a policy or rule list; refuses to work from a partial one. */
+async function listAll<T>(client: OktaClient, path: string, params: Record<string, unknown>): Promise<T[]> {
+  const result = await listItems<T>(client, path, params, { fetchAll: true, maxItems: HARD_MAX_ITEMS });
+  if (result.truncated) {
+    throw new Error(`${path} returned more than ${HARD_MAX_ITEMS} items; only part of the list could be read.`);
+  }
+  return result.items;
+}
+
+/**
+ * Gives the listed items priorities 1, 2, 3… in order, followed by the
+ * unlisted ones in their current order; the system default stays last.
+ * Okta shifts the others when one moves, so updates go from the top
+ * down, re-reading each item first. Returns the IDs that were updated.
+ */
+async function applyOrder(
+  client: OktaClient,
+  items: Prioritized[],
+  orderedIds: string[],
+  itemPath: (id: string) => string,
+  label: { noun: "policy" | "rule"; of: string }
+): Promise<string[]> {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const unknown = orderedIds.filter((id) => !byId.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Not ${label.of}: ${unknown.join(", ")}`);
+  }
+  const system = orderedIds.filter((id) => byId.get(id)!.system);
+  if (system.length > 0) {
+    throw new Error(`The default ${label.noun} ${system.join(", ")} is always evaluated last and can't be reordered.`);
+  }
+
+  const rest = items
+    .filter((item) => !item.system && !orderedIds.includes(item.id))
+    .sort((a, b) => a.priority - b.priority);
+  const order = [...orderedIds.map((id) => byId.get(id)!), ...rest];
+
+  const updated: string[] = [];
+  for (const [i, item] of order.entries()) {
+    const current = (await client.get<Prioritized>(itemPath(item.id))).data;
+    if (current.priority !== i + 1) {
+      await client.put(itemPath(item.id), { ...current, priority: i + 1 });
+      updated.push(item.id);
+    }
+  }
+  return updated;
+}
+
+function summarizeOrder(items: Prioritized[]) {
+  return [...items]
+    .sort((a, b) => a.priority - b.priority)
+    .map((item) => ({ id: item.id, name: item.name, priority: item.priority, system: item.system }));
+}
+
+export function registerOrgPolicyTools(server: McpServer, client: OktaClient): void {
+  const policyPath = (policyId: string) => `/policies/${encodeURIComponent(policyId)}`;
+  const rulePath = (policyId: string, ruleId: string) =>
+    `${policyPath(policyId)}/rules/${encodeURIComponent(ruleId)}`;
+
+  server.tool(
+    "okta_list_org_policies",
+    "List the org's policies of one type: global session (OKTA_SIGN_ON), password (PASSWORD), authenticator enrollment (MFA_ENROLL), app authentication (ACCESS_POLICY) or user profile (PROFILE_ENROLLMENT). Policies are evaluated in priority order, lowest number first; the system default policy is always last. These are org policies, not authorization server policies.",
+    {
+      type: policyTypeEnum.describe("Policy type to list"),
+      status: z.enum(["ACTIVE", "INACTIVE"]).optional().describe("Only list policies with this status"),
+      expandRules: z.boolean().optional().describe("If true, embed each policy's rules in the response"),
+    },
+    async ({ type, status, expandRules }) => {
+      const result = await listItems<OktaPolicy>(
+        client,
+        "/policies",
+        { type, status, expand: expandRules ? "rules" : undefined },
+        { fetchAll: true, maxItems: HARD_MAX_ITEMS }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_get_org_policy",
+    "Retrieve an org policy by ID, including its conditions and settings. Use okta_list_org_policy_rules to see its rules.",
+    {
+      policyId: z.string().describe("Okta policy ID (e.g. 00p1abcdef)"),
+      expandRules: z.boolean().optional().describe("If true, embed the policy's rules in the response"),
+    },
+    async ({ policyId, expandRules }) => {
+      const resp = await client.get<OktaPolicy>(policyPath(policyId), {
+        params: { expand: expandRules ? "rules" : undefined },
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_create_org_policy",
+    "Create an org policy of the given type. Conditions scope who it applies to (e.g. { people: { groups: { include: [\"00g1abc\"] } } }) and settings hold the type-specific configuration, such as password complexity or the authenticators to enroll. New policies are created above the default policy; pass priority to place them precisely.",
+    {
+      type: policyTypeEnum.describe("Policy type to create"),
+      name: z.string().describe("Human-readable name for the policy"),
+      description: z.string().optional().describe("Description of what the policy governs"),
+      priority: z.number().int().min(1).optional().describe("Evaluation priority — lower numbers are evaluated first"),
+      conditions: z.record(z.unknown()).optional().describe("Conditions object, e.g. { people: { groups: { include: [\"00g1abc\"] } } }"),
+      settings: z.record(z.unknown()).optional().describe("Type-specific settings, e.g. { password: { complexity: { minLength: 12 } } } for PASSWORD policies"),
+      activate: z.boolean().optional().describe("Activate the policy on creation (default true)"),
+    },
+    async ({ type, name, description, priority, conditions, settings, activate }) => {
+      const resp = await client.post<OktaPolicy>(
+        "/policies",
+        { type, name, description, priority, conditions, settings },
+        { params: { activate: activate ?? true } }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_update_org_policy",
+    "Update an org policy. Only the provided fields change; conditions and settings replace the current objects when given. The system default policy's name, priority and conditions can't be changed.",
+    {
+      policyId: z.string().describe("Okta policy ID to update"),
+      name: z.string().optional().describe("New name for the policy"),
+      description: z.string().optional().describe("New description for the policy"),
+      priority: z.number().int().min(1).optional().describe("New evaluation priority — lower numbers are evaluated first"),
+      conditions: z.record(z.unknown()).optional().describe("New conditions object"),
+      settings: z.record(z.unknown()).optional().describe("New type-specific settings object"),
+    },
+    async ({ policyId, name, description, priority, conditions, settings }) => {
+      const current = (await client.get<OktaPolicy>(policyPath(policyId))).data;
+      const body = {
+        ...current,
+        name: name ?? current.name,
+        description: description ?? current.description,
+        priority: priority ?? current.priority,
+        conditions: conditions ?? current.conditions,
+        settings: settings ?? current.settings,
+      };
+      const resp = await client.put<OktaPolicy>(policyPath(policyId), body);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_reorder_org_policies",
+    "Set the evaluation order of an org policy type. The listed policies get priorities 1, 2, 3… in the given order; unlisted policies keep their relative order after them, and the system default policy stays last. Only policies whose priority changes are updated. Returns the resulting order.",
+    {
+      type: policyTypeEnum.describe("Policy type whose order to change"),
+      policyIds: z.array(z.string()).min(1).describe("Policy IDs in the desired order, first evaluated first"),
+    },
+    async ({ type, policyIds }) => {
+      const policies = await listAll<OktaPolicy>(client, "/policies", { type });
+      const updated = await applyOrder(client, policies, policyIds, policyPath, { noun: "policy", of: `${type} policies` });
+      const order = summarizeOrder(await listAll<OktaPolicy>(client, "/policies", { type }));
+      return {
+        content: [{ type: "text", text: JSON.stringify({ updated, order }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_activate_org_policy",
+    "Activate an org policy so it is evaluated for the users its conditions match.",
+    {
+      policyId: z.string().describe("Okta policy ID to activate"),
+    },
+    async ({ policyId }) => {
+      await client.post(`${policyPath(policyId)}/lifecycle/activate`);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ activated: true, policyId }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_deactivate_org_policy",
+    "Deactivate an org policy. Users it matched fall through to the next policy in priority order, ultimately the default policy. The default policy can't be deactivated.",
+    {
+      policyId: z.string().describe("Okta policy ID to deactivate"),
+    },
+    async ({ policyId }) => {
+      await client.post(`${policyPath(policyId)}/lifecycle/deactivate`);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ deactivated: true, policyId }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_delete_org_policy",
+    "Delete an org policy and all its rules. App authentication policies still assigned to apps can't be deleted; move the apps to another policy with okta_set_app_auth_policy first. This action is irreversible.",
+    {
+      policyId: z.string().describe("Okta policy ID to delete"),
+    },
+    async ({ policyId }) => {
+      await client.delete(policyPath(policyId));
+      return {
+        content: [{ type: "text", text: JSON.stringify({ deleted: true, policyId }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_list_org_policy_rules",
+    "List the rules of an org policy in priority order. Rules are evaluated lowest priority number first and the first match applies; each policy ends with a default catch-all rule.",
+    {
+      policyId: z.string().describe("Okta policy ID whose rules to list"),
+    },
+    async ({ policyId }) => {
+      const result = await listItems<OktaPolicyRule>(
+        client,
+        `${policyPath(policyId)}/rules`,
+        {},
+        { fetchAll: true, maxItems: HARD_MAX_ITEMS }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_get_org_policy_rule",
+    "Retrieve a single rule of an org policy, including its conditions and actions.",
+    {
+      policyId: z.string().describe("Okta policy ID that contains the rule"),
+      ruleId: z.string().describe("Okta rule ID"),
+    },
+    async ({ policyId, ruleId }) => {
+      const resp = await client.get<OktaPolicyRule>(rulePath(policyId, ruleId));
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_create_org_policy_rule",
+    "Create a rule in an org policy. The rule type follows the policy type. Conditions narrow when it applies (people, network zones, platforms, risk) and actions set the outcome, e.g. { signon: { access: \"ALLOW\", requireFactor: true } } for global session rules or { appSignOn: { access: \"ALLOW\", verificationMethod: {…} } } for app authentication rules.",
+    {
+      policyId: z.string().describe("Okta policy ID to add the rule to"),
+      name: z.string().describe("Human-readable name for the rule"),
+      priority: z.number().int().min(1).optional().describe("Evaluation priority within the policy — lower numbers are evaluated first"),
+      conditions: z.record(z.unknown()).optional().describe("Conditions object, e.g. { network: { connection: \"ZONE\", include: [\"nzo1abc\"] } }"),
+      actions: z.record(z.unknown()).describe("Actions object for the rule type"),
+      activate: z.boolean().optional().describe("Activate the rule on creation (default true)"),
+    },
+    async ({ policyId, name, priority, conditions, actions, activate }) => {
+      const policy = (await client.get<OktaPolicy>(policyPath(policyId))).data;
+      const type = RULE_TYPES[policy.type as PolicyType] ?? policy.type;
+      const resp = await client.post<OktaPolicyRule>(
+        `${policyPath(policyId)}/rules`,
+        { type, name, priority, conditions, actions },
+        { params: { activate: activate ?? true } }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_update_org_policy_rule",
+    "Update a rule of an org policy. Only the provided fields change; conditions and actions replace the current objects when given. Default rules only allow their actions to change.",
+    {
+      policyId: z.string().describe("Okta policy ID that contains the rule"),
+      ruleId: z.string().describe("Okta rule ID to update"),
+      name: z.string().optional().describe("New name for the rule"),
+      priority: z.number().int().min(1).optional().describe("New evaluation priority within the policy"),
+      conditions: z.record(z.unknown()).optional().describe("New conditions object"),
+      actions: z.record(z.unknown()).optional().describe("New actions object"),
+    },
+    async ({ policyId, ruleId, name, priority, conditions, actions }) => {
+      const current = (await client.get<OktaPolicyRule>(rulePath(policyId, ruleId))).data;
+      const body = {
+        ...current,
+        name: name ?? current.name,
+        priority: priority ?? current.priority,
+        conditions: conditions ?? current.conditions,
+        actions: actions ?? current.actions,
+      };
+      const resp = await client.put<OktaPolicyRule>(rulePath(policyId, ruleId), body);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_reorder_org_policy_rules",
+    "Set the evaluation order of an org policy's rules. The listed rules get priorities 1, 2, 3… in the given order; unlisted rules keep their relative order after them, and the default rule stays last. Only rules whose priority changes are updated. Returns the resulting order.",
+    {
+      policyId: z.string().describe("Okta policy ID whose rules to reorder"),
+      ruleIds: z.array(z.string()).min(1).describe("Rule IDs in the desired order, first evaluated first"),
+    },
+    async ({ policyId, ruleIds }) => {
+      const rulesPath = `${policyPath(policyId)}/rules`;
+      const rules = await listAll<OktaPolicyRule>(client, rulesPath, {});
+      const updated = await applyOrder(
+        client, rules, ruleIds, (ruleId) => rulePath(policyId, ruleId), { noun: "rule", of: `rules of policy ${policyId}` });
+      const order = summarizeOrder(await listAll<OktaPolicyRule>(client, rulesPath, {}));
+      return {
+        content: [{ type: "text", text: JSON.stringify({ updated, order }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_activate_org_policy_rule",
+    "Activate a rule of an org policy so it takes part in evaluation.",
+    {
+      policyId: z.string().describe("Okta policy ID that contains the rule"),
+      ruleId: z.string().describe("Okta rule ID to activate"),
+    },
+    async ({ policyId, ruleId }) => {
+      await client.post(`${rulePath(policyId, ruleId)}/lifecycle/activate`);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ activated: true, policyId, ruleId }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_deactivate_org_policy_rule",
+    "Deactivate a rule of an org policy; evaluation skips it and falls through to the next rule. Default rules can't be deactivated.",
+    {
+      policyId: z.string().describe("Okta policy ID that contains the rule"),
+      ruleId: z.string().describe("Okta rule ID to deactivate"),
+    },
+    async ({ policyId, ruleId }) => {
+      await client.post(`${rulePath(policyId, ruleId)}/lifecycle/deactivate`);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ deactivated: true, policyId, ruleId }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_delete_org_policy_rule",
+    "Delete a rule from an org policy. Default rules can't be deleted. This action is irreversible.",
+    {
+      policyId: z.string().describe("Okta policy ID that contains the rule"),
+      ruleId: z.string().describe("Okta rule ID to delete"),
+    },
+    async ({ policyId, ruleId }) => {
+      await client.delete(rulePath(policyId, ruleId));
+      return {
+        content: [{ type: "text", text: JSON.stringify({ deleted: true, policyId, ruleId }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_list_app_auth_policies",
+    "Map apps to their authentication policies: for each app authentication policy (ACCESS_POLICY), list the apps that use it. Pass policyId to list the apps of a single policy.",
+    {
+      policyId: z.string().optional().describe("Only list the apps of this authentication policy"),
+    },
+    async ({ policyId }) => {
+      const policies = policyId
+        ? [(await client.get<OktaPolicy>(policyPath(policyId))).data]
+        : await listAll<OktaPolicy>(client, "/policies", { type: "ACCESS_POLICY" });
+      const mapping = await mapWithConcurrency(policies, 4, async (policy) => {
+        const apps = await listItems<OktaApp>(
+          client, `${policyPath(policy.id)}/app`, {}, { fetchAll: true, maxItems: HARD_MAX_ITEMS });
+        return {
+          policy: { id: policy.id, name: policy.name, status: policy.status, system: policy.system },
+          apps: apps.items.map((app) => ({ id: app.id, label: app.label, status: app.status })),
+          ...(apps.truncated ? { truncated: `only the first ${HARD_MAX_ITEMS} apps were listed` } : {}),
+        };
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(mapping, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_get_app_auth_policy",
+    "Get the authentication policy an app uses, from the app's accessPolicy link. Returns the app and the full policy.",
+    {
+      appId: z.string().describe("Okta application ID"),
+    },
+    async ({ appId }) => {
+      const app = (await client.get<OktaApp>(`/apps/${encodeURIComponent(appId)}`)).data;
+      const href = (app._links?.accessPolicy as { href?: string } | undefined)?.href;
+      const policyId = href?.split("/").pop();
+      const policy = policyId ? (await client.get<OktaPolicy>(policyPath(policyId))).data : null;
+      const result = { app: { id: app.id, label: app.label, status: app.status }, policy };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_set_app_auth_policy",
+    "Switch an app to a different authentication policy. The policy must be an ACCESS_POLICY; the app's previous policy is left in place for the other apps that use it.",
+    {
+      appId: z.string().describe("Okta application ID"),
+      policyId: z.string().describe("ID of the app authentication policy (ACCESS_POLICY) to assign"),
+    },
+    async ({ appId, policyId }) => {
+      const policy = (await client.get<OktaPolicy>(policyPath(policyId))).data;
+      if (policy.type !== "ACCESS_POLICY") {
+        throw new Error(`Policy ${policy.name} is a ${policy.type} policy; apps can only use ACCESS_POLICY policies.`);
+      }
+      await client.put(`/apps/${encodeURIComponent(appId)}/policies/${encodeURIComponent(policyId)}`);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ appId, policy: { id: policy.id, name: policy.name } }, null, 2) }],
+      };
+    }
+  );
+}
@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { OktaClient } from "@okta-mcp/core";
+import { OktaClient, listItems, paginationShape } from "@okta-mcp/core";
 
 export function registerScopeTools(server: McpServer, client: OktaClient): void {
   server.tool(
@@ -11,13 +11,17 @@ export function registerScopeTools(server: McpServer, client: OktaClient): void
       q: z.string().optional().describe("Filter scopes by name (partial match)"),
       limit: z.number().min(1).max(200).optional().describe("Maximum number of scopes to return (default 200, max 200)"),
       after: z.string().optional().describe("Pagination cursor from a previous response to fetch the next page"),
+      ...paginationShape,
     },
-    async ({ authServerId, q, limit, after }) => {
-      const resp = await client.get(`/authorizationServers/${authServerId}/scopes`, {
-        params: { q, limit, after },
-      });
+    async ({ authServerId, q, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        `/authorizationServers/${authServerId}/scopes`,
+        { q, limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
@@ -0,0 +1,75 @@
+/**
+ * Minimal RFC 4180 CSV parser: comma-separated, double-quoted fields
+ * with "" as an escaped quote, CRLF or LF line endings. The first row is
+ * the header. Blank lines are skipped.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows = splitRows(text.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((h) => h.trim());
+  return rows.slice(1).map((cells, i) => {
+    if (cells.length > header.length) {
+      throw new Error(`CSV row ${i + 2} has ${cells.length} fields; the header has ${header.length}.`);
+    }
+    const record: Record<string, string> = {};
+    header.forEach((name, col) => {
+      record[name] = cells[col] ?? "";
+    });
+    return record;
+  });
+}
+
+function splitRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((cell) => cell !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (quoted) throw new Error("CSV ends inside a quoted field.");
+  row.push(field);
+  if (row.some((cell) => cell !== "")) rows.push(row);
+  return rows;
+}
+
+/**
+ * Formats records as CSV with the given columns as the header. Fields
+ * containing a comma, quote or line break are quoted.
+ */
+export function toCsv(records: Record<string, unknown>[], columns: string[]): string {
+  const lines = [columns, ...records.map((record) => columns.map((col) => record[col]))];
+  return lines.map((cells) => cells.map(formatField).join(",")).join("\r\n") + "\r\n";
+}
+
+function formatField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -1,17 +1,37 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { OktaClient } from "@okta-mcp/core";
+import {
+  OktaClient,
+  ClientPool,
+  installDryRun,
+  installOrgRouting,
+  installToolErrorHandling,
+  installToolPolicy,
+} from "@okta-mcp/core";
 import { registerUserLifecycleTools } from "./tools/user-lifecycle.js";
 import { registerUserRelationTools } from "./tools/user-relations.js";
 import { registerFactorTools } from "./tools/factors.js";
+import { registerAuthenticatorTools } from "./tools/authenticators.js";
 import { registerSessionTools } from "./tools/sessions.js";
+import { registerGroupTools } from "./tools/groups.js";
+import { registerGroupRuleTools } from "./tools/group-rules.js";
+import { registerBulkImportTools } from "./tools/bulk-import.js";
+import { registerUserSchemaTools } from "./tools/schema.js";
+import { registerStaleAccountTools } from "./tools/stale-accounts.js";
+import { registerMfaCoverageTools } from "./tools/mfa-coverage.js";
+import { registerLinkedObjectTools } from "./tools/linked-objects.js";
 
-const client = new OktaClient({
+const clients = new ClientPool((options) => new OktaClient(options), {
   requiredScopes: [
     "okta.users.read",
     "okta.users.manage",
+    "okta.schemas.read",
+    "okta.userTypes.read",
+    "okta.linkedObjects.read",
+    "okta.linkedObjects.manage",
     "okta.groups.read",
+    "okta.groups.manage",
     "okta.apps.read",
     "okta.roles.read",
     "okta.authenticators.read",
@@ -20,15 +40,28 @@ const client = new OktaClient({
     "okta.sessions.manage",
   ],
 });
+const client = clients.routed();
 const server = new McpServer({
   name: "okta-mcp-users",
   version: "0.1.0",
 });
+installToolPolicy(server);
+installToolErrorHandling(server);
+installOrgRouting(server, clients);
+installDryRun(server);
 
 registerUserLifecycleTools(server, client);
 registerUserRelationTools(server, client);
 registerFactorTools(server, client);
+registerAuthenticatorTools(server, client);
 registerSessionTools(server, client);
+registerGroupTools(server, client);
+registerGroupRuleTools(server, client);
+registerBulkImportTools(server, client);
+registerUserSchemaTools(server, client);
+registerStaleAccountTools(server, client);
+registerMfaCoverageTools(server, client);
+registerLinkedObjectTools(server, client);
 
 const transport = new StdioServerTransport();
 await server.connect(transport);
@@ -0,0 +1,210 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { OktaClient } from "@okta-mcp/core";
+
+/** Okta's sign-in pipeline: "idx" for Identity Engine, "v1" for Classic Engine. */
+type Pipeline = "idx" | "v1";
+
+/** Pipeline per org URL; an org's engine doesn't change while the server runs. */
+const pipelines = new Map<string, Promise<Pipeline>>();
+
+/**
+ * Detects whether the org runs Identity Engine or Classic Engine from the
+ * public /.well-known/okta-organization document.
+ */
+function detectPipeline(client: OktaClient): Promise<Pipeline> {
+  let pipeline = pipelines.get(client.orgUrl);
+  if (!pipeline) {
+    pipeline = client
+      .get<{ pipeline?: string }>(`${client.orgUrl}/.well-known/okta-organization`)
+      .then((resp) => (resp.data.pipeline === "idx" ? "idx" : "v1") as Pipeline);
+    // Don't cache a failed lookup
+    pipeline.catch(() => pipelines.delete(client.orgUrl));
+    pipelines.set(client.orgUrl, pipeline);
+  }
+  return pipeline;
+}
+
+/** Throws a descriptive error unless the org runs Identity Engine. */
+async function requireIdentityEngine(client: OktaClient, feature: string): Promise<void> {
+  if ((await detectPipeline(client)) !== "idx") {
+    throw new Error(
+      `${feature} requires Okta Identity Engine; this org runs Classic Engine. Use the factor tools (okta_list_user_factors, okta_reset_factor) instead.`
+    );
+  }
+}
+
+export function registerAuthenticatorTools(server: McpServer, client: OktaClient): void {
+  server.tool(
+    "okta_list_authenticators",
+    "List the org's authenticators (Identity Engine): Okta Verify, FIDO2 (WebAuthn), phone, email, password, security question and others, with their status. Classic Engine orgs don't have authenticators; use okta_list_supported_factors there.",
+    {},
+    async () => {
+      await requireIdentityEngine(client, "Authenticators");
+      const resp = await client.get("/authenticators");
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_get_authenticator",
+    "Retrieve a single authenticator by ID, including its key, status and settings. Use okta_list_authenticator_methods to see how each of its methods is configured.",
+    {
+      authenticatorId: z.string().describe("Okta authenticator ID (e.g. aut1abcdef)"),
+    },
+    async ({ authenticatorId }) => {
+      await requireIdentityEngine(client, "Authenticators");
+      const resp = await client.get(`/authenticators/${encodeURIComponent(authenticatorId)}`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_activate_authenticator",
+    "Activate an authenticator so users can enroll in it and policies can require it. Activating doesn't enroll anyone; authenticator enrollment policies decide who is prompted.",
+    {
+      authenticatorId: z.string().describe("Okta authenticator ID to activate"),
+    },
+    async ({ authenticatorId }) => {
+      await requireIdentityEngine(client, "Authenticators");
+      const resp = await client.post(`/authenticators/${encodeURIComponent(authenticatorId)}/lifecycle/activate`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_deactivate_authenticator",
+    "Deactivate an authenticator. Okta refuses while an authenticator enrollment or authentication policy still uses it; remove it from those policies first. Users can no longer sign in with it once deactivated.",
+    {
+      authenticatorId: z.string().describe("Okta authenticator ID to deactivate"),
+    },
+    async ({ authenticatorId }) => {
+      await requireIdentityEngine(client, "Authenticators");
+      const resp = await client.post(`/authenticators/${encodeURIComponent(authenticatorId)}/lifecycle/deactivate`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_list_authenticator_methods",
+    "List the methods of an authenticator and their configuration, e.g. push, totp and signed_nonce for Okta Verify, or sms and voice for phone. Use okta_update_authenticator_method to change a method's settings or status.",
+    {
+      authenticatorId: z.string().describe("Okta authenticator ID"),
+    },
+    async ({ authenticatorId }) => {
+      await requireIdentityEngine(client, "Authenticators");
+      const resp = await client.get(`/authenticators/${encodeURIComponent(authenticatorId)}/methods`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_update_authenticator_method",
+    "Configure one method of an authenticator. Settings are merged into the method's current settings (e.g. { userVerification: \"REQUIRED\" } for WebAuthn or { algorithms: [\"ES256\"] } for Okta Verify), and status ACTIVE or INACTIVE turns the method on or off.",
+    {
+      authenticatorId: z.string().describe("Okta authenticator ID"),
+      methodType: z.string().describe("Method type, e.g. push, totp, signed_nonce, sms, voice, webauthn, email, password, security_question"),
+      settings: z.record(z.unknown()).optional().describe("Method settings to change; other settings keep their current value"),
+      status: z.enum(["ACTIVE", "INACTIVE"]).optional().describe("Activate or deactivate the method"),
+    },
+    async ({ authenticatorId, methodType, settings, status }) => {
+      await requireIdentityEngine(client, "Authenticators");
+      const path = `/authenticators/${encodeURIComponent(authenticatorId)}/methods/${encodeURIComponent(methodType)}`;
+      let method = (await client.get<{ status: string; settings?: Record<string, unknown> }>(path)).data;
+      if (settings) {
+        method = (await client.put<typeof method>(path, {
+          ...method,
+          settings: { ...method.settings, ...settings },
+        })).data;
+      }
+      if (status && status !== method.status) {
+        await client.post(`${path}/lifecycle/${status === "ACTIVE" ? "activate" : "deactivate"}`);
+        method = (await client.get<typeof method>(path)).data;
+      }
+      return {
+        content: [{ type: "text", text: JSON.stringify(method, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_list_user_authenticator_enrollments",
+    "List the authenticators a user is enrolled in. On Identity Engine orgs this reads authenticator enrollments; on Classic Engine orgs it falls back to the user's enrolled factors. The result says which engine was used.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the user"),
+    },
+    async ({ userId }) => {
+      const engine = await detectPipeline(client);
+      const user = encodeURIComponent(userId);
+      const resp = await client.get(
+        engine === "idx" ? `/users/${user}/authenticator-enrollments` : `/users/${user}/factors`
+      );
+      const result = {
+        engine: engine === "idx" ? "Identity Engine" : "Classic Engine",
+        [engine === "idx" ? "enrollments" : "factors"]: resp.data,
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_delete_user_authenticator_enrollment",
+    "Remove one of a user's authenticator enrollments, e.g. a lost phone or security key, so they must enroll again. On Classic Engine orgs the ID is a factor ID and the factor is reset instead.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the user"),
+      enrollmentId: z.string().describe("Authenticator enrollment ID (Identity Engine) or factor ID (Classic Engine)"),
+    },
+    async ({ userId, enrollmentId }) => {
+      const engine = await detectPipeline(client);
+      const user = encodeURIComponent(userId);
+      const id = encodeURIComponent(enrollmentId);
+      const resp = await client.delete(
+        engine === "idx" ? `/users/${user}/authenticator-enrollments/${id}` : `/users/${user}/factors/${id}`
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data ?? { success: true }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_create_temporary_access_code",
+    "Issue a temporary access code (TAC) so a user who lost their authenticators can sign in and enroll new ones. Identity Engine only; the Temporary Access Code authenticator must be active. Returns the code once — hand it to the verified user over a trusted channel.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the user"),
+      authenticatorId: z.string().optional().describe("ID of the Temporary Access Code authenticator (default: looked up by its key)"),
+      profile: z.record(z.unknown()).optional().describe("TAC settings allowed by the authenticator, e.g. { multiUse: false, ttl: 60 }"),
+    },
+    async ({ userId, authenticatorId, profile }) => {
+      await requireIdentityEngine(client, "Temporary access codes");
+      let tacId = authenticatorId;
+      if (!tacId) {
+        const authenticators = await client.get<Array<{ id: string; key: string; status: string }>>("/authenticators");
+        const tac = authenticators.data.find((a) => a.key === "temporary_access_code");
+        if (!tac) {
+          throw new Error("This org has no Temporary Access Code authenticator. Add it under Security → Authenticators first.");
+        }
+        tacId = tac.id;
+      }
+      const resp = await client.post(`/users/${encodeURIComponent(userId)}/authenticator-enrollments/tac`, {
+        authenticatorId: tacId,
+        ...(profile ? { profile } : {}),
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+}
@@ -0,0 +1,225 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import {
+  OktaApiError,
+  OktaClient,
+  coerceValue,
+  describeToolError,
+  fetchUserAttributes,
+  isDryRunActive,
+  mapWithConcurrency,
+  resolveDataPath,
+  validateProfile,
+  type UserAttribute,
+} from "@okta-mcp/core";
+import { parseCsv } from "../csv.js";
+
+/** A parsed input row, before validation. */
+interface ImportRow {
+  /** 1-based data row number (header excluded) */
+  row: number;
+  profile: Record<string, unknown>;
+  password?: string;
+  groupIds: string[];
+}
+
+type RowStatus = "valid" | "invalid" | "exists" | "created" | "failed" | "skipped";
+
+interface RowResult {
+  row: number;
+  login?: string;
+  status: RowStatus;
+  userId?: string;
+  errors?: string[];
+}
+
+/** Progress file that lets an interrupted import resume where it stopped. */
+interface Checkpoint {
+  /** SHA-256 of the input rows; a checkpoint only applies to the same input */
+  source: string;
+  /** Outcome per login (lower-cased) of every row attempted so far */
+  rows: Record<string, { status: "created" | "failed"; userId?: string; errors?: string[] }>;
+}
+
+/** Columns that are not profile attributes. */
+const PASSWORD_COLUMN = "password";
+const GROUPS_COLUMN = "groupIds";
+
+export function registerBulkImportTools(server: McpServer, client: OktaClient): void {
+  server.tool(
+    "okta_bulk_import_users",
+    "Create many users from CSV or JSON rows in one call. Rows are first validated against the org's user schema (required attributes, types, formats, duplicate logins in the input and in Okta); valid rows are then created with bounded concurrency, optionally activated and added to groups. Returns a per-row report. Pass checkpointFile to make the import resumable: rerunning with the same input and checkpoint skips rows already created.",
+    {
+      format: z.enum(["csv", "json"]).describe("Input format. CSV: a header row of profile attribute names, plus optional password and groupIds (semicolon-separated) columns. JSON: an array of objects, either flat attributes or { profile, password, groupIds }"),
+      data: z.string().optional().describe("The CSV text or JSON array. Provide this or filePath."),
+      filePath: z.string().optional().describe("Path to a CSV or JSON file inside the server's data directory (OKTA_DATA_DIR, default ~/.okta-mcp/data). Provide this or data."),
+      activate: z.boolean().optional().describe("If true, activate users on creation (default false, creates them STAGED)"),
+      groupIds: z.array(z.string()).optional().describe("Group IDs every imported user is added to, in addition to a row's own groupIds column"),
+      validateOnly: z.boolean().optional().describe("If true, only validate rows and check for existing logins; create nothing"),
+      concurrency: z.number().min(1).max(10).optional().describe("Maximum number of users created in parallel (default 4). Requests are also paced by the rate-limit governor."),
+      checkpointFile: z.string().optional().describe("Path of a JSON checkpoint file, inside the data directory, recording each row's outcome. Reuse it to resume an interrupted import."),
+    },
+    async ({ format, data, filePath, activate, groupIds, validateOnly, concurrency, checkpointFile: checkpointPath }) => {
+      if ((data === undefined) === (filePath === undefined)) {
+        throw new Error("Provide exactly one of data or filePath.");
+      }
+      const checkpointFile = checkpointPath === undefined ? undefined : resolveDataPath(checkpointPath);
+      const text = data ?? fs.readFileSync(resolveDataPath(filePath!), "utf8");
+      const attributes = await fetchUserAttributes(client);
+      const rows = format === "csv" ? rowsFromCsv(text, attributes) : rowsFromJson(text);
+      for (const row of rows) {
+        row.groupIds = [...new Set([...row.groupIds, ...(groupIds ?? [])])];
+      }
+
+      const source = crypto.createHash("sha256").update(JSON.stringify(rows)).digest("hex");
+      const checkpoint = checkpointFile ? loadCheckpoint(checkpointFile, source) : undefined;
+      const saveCheckpoint = () => {
+        if (checkpointFile && checkpoint && !isDryRunActive()) {
+          fs.writeFileSync(checkpointFile, JSON.stringify(checkpoint, null, 2));
+        }
+      };
+
+      // Stage 1: validate against the schema and for duplicates within the input
+      const results: RowResult[] = [];
+      const seen = new Map<string, number>();
+      for (const row of rows) {
+        const login = typeof row.profile.login === "string" ? row.profile.login : undefined;
+        const errors = validateProfile(row.profile, attributes);
+        const key = login?.toLowerCase();
+        if (key && seen.has(key)) {
+          errors.push(`login ${login} duplicates row ${seen.get(key)}`);
+        } else if (key) {
+          seen.set(key, row.row);
+        }
+        results.push({ row: row.row, login, status: errors.length ? "invalid" : "valid", errors: errors.length ? errors : undefined });
+      }
+
+      const limit = concurrency ?? 4;
+      const pending = rows.filter((_, i) => results[i].status === "valid");
+
+      // Stage 2: skip rows the checkpoint marks done, and logins that already exist in Okta
+      await mapWithConcurrency(pending, limit, async (row) => {
+        const result = results[row.row - 1];
+        const previous = checkpoint?.rows[result.login!.toLowerCase()];
+        if (previous?.status === "created") {
+          Object.assign(result, { status: "skipped", userId: previous.userId, errors: ["created in a previous run"] });
+          return;
+        }
+        if (previous?.userId) {
+          // Created in a previous run, but a group membership failed: only retry the groups
+          result.userId = previous.userId;
+          return;
+        }
+        try {
+          const existing = await client.get<{ id: string }>(`/users/${encodeURIComponent(result.login!)}`);
+          Object.assign(result, { status: "exists", userId: existing.data.id, errors: ["a user with this login already exists"] });
+        } catch (err: unknown) {
+          if (!(err instanceof OktaApiError && err.status === 404)) throw err;
+        }
+      });
+
+      // Stage 3: create users and group memberships
+      if (!validateOnly) {
+        const toCreate = pending.filter((row) => results[row.row - 1].status === "valid");
+        await mapWithConcurrency(toCreate, limit, async (row) => {
+          const result = results[row.row - 1];
+          try {
+            if (!result.userId) {
+              const resp = await client.post<{ id: string }>(
+                "/users",
+                {
+                  profile: row.profile,
+                  ...(row.password ? { credentials: { password: { value: row.password } } } : {}),
+                },
+                { params: { activate: activate ?? false } }
+              );
+              result.userId = resp.data.id;
+            }
+            const groupErrors: string[] = [];
+            for (const groupId of row.groupIds) {
+              try {
+                await client.put(`/groups/${encodeURIComponent(groupId)}/users/${encodeURIComponent(result.userId!)}`);
+              } catch (err: unknown) {
+                groupErrors.push(`group ${groupId}: ${describeToolError(err).summary}`);
+              }
+            }
+            result.status = groupErrors.length ? "failed" : "created";
+            result.errors = groupErrors.length ? groupErrors : undefined;
+          } catch (err: unknown) {
+            const detail = describeToolError(err);
+            result.status = "failed";
+            result.errors = [detail.summary, ...(detail.causes ?? [])];
+          }
+          if (checkpoint) {
+            checkpoint.rows[result.login!.toLowerCase()] = {
+              status: result.status === "created" ? "created" : "failed",
+              userId: result.userId,
+              errors: result.errors,
+            };
+            saveCheckpoint();
+          }
+        });
+      }
+
+      const summary: Record<string, number> = { total: results.length };
+      for (const result of results) {
+        summary[result.status] = (summary[result.status] ?? 0) + 1;
+      }
+      return {
+        content: [{ type: "text", text: JSON.stringify({ summary, checkpointFile, rows: results }, null, 2) }],
+      };
+    }
+  );
+}
+
+/** Converts CSV records to rows, coercing cells to their schema types. */
+function rowsFromCsv(text: string, attributes: Map<string, UserAttribute>): ImportRow[] {
+  return parseCsv(text).map((record, i) => {
+    const profile: Record<string, unknown> = {};
+    for (const [column, cell] of Object.entries(record)) {
+      if (column === PASSWORD_COLUMN || column === GROUPS_COLUMN || cell === "") continue;
+      profile[column] = coerceValue(cell, attributes.get(column)?.property);
+    }
+    return {
+      row: i + 1,
+      profile,
+      password: record[PASSWORD_COLUMN] || undefined,
+      groupIds: splitIds(record[GROUPS_COLUMN]),
+    };
+  });
+}
+
+/** Accepts flat attribute objects or { profile, password, groupIds } objects. */
+function rowsFromJson(text: string): ImportRow[] {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error("JSON input must be an array of user objects.");
+  }
+  return parsed.map((item: Record<string, unknown>, i) => {
+    const { profile, password, groupIds, ...flat } = item ?? {};
+    return {
+      row: i + 1,
+      profile: typeof profile === "object" && profile !== null ? (profile as Record<string, unknown>) : flat,
+      password: typeof password === "string" ? password : undefined,
+      groupIds: Array.isArray(groupIds) ? groupIds.map(String) : splitIds(groupIds as string | undefined),
+    };
+  });
+}
+
+function splitIds(value: string | undefined): string[] {
+  return value?.split(/[;,]/).map((s) => s.trim()).filter(Boolean) ?? [];
+}
+
+/** Reads a checkpoint, or starts a new one when the file does not exist yet. */
+function loadCheckpoint(path: string, source: string): Checkpoint {
+  if (!fs.existsSync(path)) return { source, rows: {} };
+  const checkpoint = JSON.parse(fs.readFileSync(path, "utf8")) as Checkpoint;
+  if (checkpoint.source !== source) {
+    throw new Error(
+      `Checkpoint ${path} was written for different input. Use a new checkpointFile, or delete it to start over.`,
+    );
+  }
+  return checkpoint;
+}
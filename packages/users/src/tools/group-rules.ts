@@ -0,0 +1,112 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { OktaClient, listItems, paginationShape } from "@okta-mcp/core";
+
+export function registerGroupRuleTools(server: McpServer, client: OktaClient): void {
+  server.tool(
+    "okta_list_group_rules",
+    "List group rules, which add users to groups automatically when an Okta expression matches their profile. Use 'search' to match rule names.",
+    {
+      search: z.string().optional().describe("Match rules whose name contains this keyword"),
+      limit: z.number().min(1).max(200).optional().describe("Maximum number of results per page (default 50)"),
+      after: z.string().optional().describe("Pagination cursor returned in the previous response to fetch the next page"),
+      expand: z.string().optional().describe("Set to groupIdToGroupNameMap to include target group names"),
+      ...paginationShape,
+    },
+    async ({ search, limit, after, expand, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/groups/rules",
+        { search, limit, after, expand },
+        { fetchAll, maxItems }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_get_group_rule",
+    "Retrieve a single group rule by ID, including its expression, target groups, excluded users and status (ACTIVE, INACTIVE or INVALID).",
+    {
+      ruleId: z.string().describe("Group rule ID (e.g. 0pr1abcdef)"),
+    },
+    async ({ ruleId }) => {
+      const resp = await client.get(`/groups/rules/${encodeURIComponent(ruleId)}`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_create_group_rule",
+    "Create a group rule that assigns matching users to one or more groups. The rule is created INACTIVE; call okta_activate_group_rule to start evaluating it. Expressions use Okta Expression Language, e.g. user.department == \"Engineering\" or isMemberOfAnyGroup(\"00g1abcdef\").",
+    {
+      name: z.string().describe("Rule name (max 50 characters)"),
+      expression: z.string().describe("Okta Expression Language condition evaluated against each user, e.g. user.department == \"Sales\""),
+      groupIds: z.array(z.string()).min(1).describe("IDs of the OKTA_GROUP groups that matching users are added to"),
+      excludedUserIds: z.array(z.string()).optional().describe("User IDs that the rule never assigns, even if they match"),
+    },
+    async ({ name, expression, groupIds, excludedUserIds }) => {
+      const resp = await client.post("/groups/rules", {
+        type: "group_rule",
+        name,
+        conditions: {
+          expression: { type: "urn:okta:expression:1.0", value: expression },
+          ...(excludedUserIds ? { people: { users: { exclude: excludedUserIds } } } : {}),
+        },
+        actions: { assignUserToGroups: { groupIds } },
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_activate_group_rule",
+    "Activate a group rule. Okta then evaluates it for every existing user and on each profile change, adding matching users to the rule's groups.",
+    {
+      ruleId: z.string().describe("Group rule ID to activate"),
+    },
+    async ({ ruleId }) => {
+      await client.post(`/groups/rules/${encodeURIComponent(ruleId)}/lifecycle/activate`);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, ruleId, status: "ACTIVE" }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_deactivate_group_rule",
+    "Deactivate a group rule so it stops assigning users. Users it already added keep their membership. A rule must be deactivated before it can be changed or deleted.",
+    {
+      ruleId: z.string().describe("Group rule ID to deactivate"),
+    },
+    async ({ ruleId }) => {
+      await client.post(`/groups/rules/${encodeURIComponent(ruleId)}/lifecycle/deactivate`);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, ruleId, status: "INACTIVE" }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_delete_group_rule",
+    "Permanently delete a group rule. The rule must be INACTIVE — call okta_deactivate_group_rule first. By default users the rule added stay in their groups; set removeUsers=true to remove them as well.",
+    {
+      ruleId: z.string().describe("Group rule ID of the INACTIVE rule to delete"),
+      removeUsers: z.boolean().optional().describe("If true, also remove the users the rule assigned from its groups (default false)"),
+    },
+    async ({ ruleId, removeUsers }) => {
+      const resp = await client.delete(`/groups/rules/${encodeURIComponent(ruleId)}`, {
+        params: { removeUsers },
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data ?? { success: true }, null, 2) }],
+      };
+    }
+  );
+}
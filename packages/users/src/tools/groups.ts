@@ -0,0 +1,153 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { OktaClient, OktaGroup, listItems, paginationShape } from "@okta-mcp/core";
+
+export function registerGroupTools(server: McpServer, client: OktaClient): void {
+  server.tool(
+    "okta_list_groups",
+    "List or search groups in the Okta org. Use 'q' for a name prefix match, 'type' to restrict to Okta-mastered, app-imported or built-in groups, or 'search' for full expressions (e.g. profile.name sw \"Eng\").",
+    {
+      q: z.string().optional().describe("Group name prefix to match, e.g. \"Eng\""),
+      type: z.enum(["OKTA_GROUP", "APP_GROUP", "BUILT_IN"]).optional().describe("Only return groups of this type: OKTA_GROUP (created in Okta), APP_GROUP (imported from an app or directory), BUILT_IN (Everyone)"),
+      search: z.string().optional().describe("Search expression, e.g. lastMembershipUpdated gt \"2024-01-01T00:00:00.000Z\"; combined with 'type' using and"),
+      limit: z.number().min(1).max(200).optional().describe("Maximum number of results per page (max 200)"),
+      after: z.string().optional().describe("Pagination cursor returned in the previous response to fetch the next page"),
+      ...paginationShape,
+    },
+    async ({ q, type, search, limit, after, fetchAll, maxItems }) => {
+      const typeExpr = type ? `type eq "${type}"` : undefined;
+      const combined = [typeExpr, search].filter(Boolean).join(" and ") || undefined;
+      const result = await listItems<OktaGroup>(
+        client,
+        "/groups",
+        { q, search: combined, limit, after },
+        { fetchAll, maxItems }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_get_group",
+    "Retrieve a single group by ID, including its type, profile (name, description) and last membership update time. Use okta_list_groups with 'q' to find a group's ID by name.",
+    {
+      groupId: z.string().describe("Okta group ID (e.g. 00g1abcdef)"),
+    },
+    async ({ groupId }) => {
+      const resp = await client.get(`/groups/${encodeURIComponent(groupId)}`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_create_group",
+    "Create a new Okta-mastered group (type OKTA_GROUP). Groups are the main unit for assigning apps, policies and admin roles, so prefer adding users to groups over assigning apps to users directly.",
+    {
+      name: z.string().describe("Unique group name"),
+      description: z.string().optional().describe("Group description"),
+    },
+    async ({ name, description }) => {
+      const resp = await client.post("/groups", { profile: { name, description } });
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_update_group",
+    "Rename an Okta-mastered group or change its description. Only OKTA_GROUP groups can be updated; APP_GROUP profiles are owned by the source app. Omitted fields keep their current value.",
+    {
+      groupId: z.string().describe("Okta group ID of the OKTA_GROUP to update"),
+      name: z.string().optional().describe("New group name"),
+      description: z.string().optional().describe("New group description"),
+    },
+    async ({ groupId, name, description }) => {
+      // The group profile is replaced as a whole, so merge onto the current one
+      const current = await client.get<OktaGroup>(`/groups/${encodeURIComponent(groupId)}`);
+      const profile = {
+        ...current.data.profile,
+        ...(name !== undefined ? { name } : {}),
+        ...(description !== undefined ? { description } : {}),
+      };
+      const resp = await client.put(`/groups/${encodeURIComponent(groupId)}`, { profile });
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_delete_group",
+    "Permanently delete an Okta-mastered group. Members lose every app assignment, policy and admin role granted through the group. This cannot be undone; groups that are the target of an active group rule must have the rule deactivated first.",
+    {
+      groupId: z.string().describe("Okta group ID of the OKTA_GROUP to delete"),
+    },
+    async ({ groupId }) => {
+      const resp = await client.delete(`/groups/${encodeURIComponent(groupId)}`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data ?? { success: true }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_list_group_members",
+    "List the users who are members of a group. Use fetchAll to collect every page for large groups; each entry is a full user object with status and profile.",
+    {
+      groupId: z.string().describe("Okta group ID whose members to list"),
+      limit: z.number().min(1).max(200).optional().describe("Maximum number of results per page (default 200)"),
+      after: z.string().optional().describe("Pagination cursor returned in the previous response to fetch the next page"),
+      ...paginationShape,
+    },
+    async ({ groupId, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        `/groups/${encodeURIComponent(groupId)}/users`,
+        { limit, after },
+        { fetchAll, maxItems }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_add_user_to_group",
+    "Add a user to an Okta-mastered group. The user immediately receives every app assignment and policy attached to the group. Adding an existing member is a no-op.",
+    {
+      groupId: z.string().describe("Okta group ID of the OKTA_GROUP"),
+      userId: z.string().describe("Okta user ID of the user to add"),
+    },
+    async ({ groupId, userId }) => {
+      await client.put(
+        `/groups/${encodeURIComponent(groupId)}/users/${encodeURIComponent(userId)}`
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, groupId, userId }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_remove_user_from_group",
+    "Remove a user from an Okta-mastered group. App assignments and policies the user only had through this group are removed as well. Membership granted by a group rule comes back unless the rule is changed.",
+    {
+      groupId: z.string().describe("Okta group ID of the OKTA_GROUP"),
+      userId: z.string().describe("Okta user ID of the user to remove"),
+    },
+    async ({ groupId, userId }) => {
+      await client.delete(
+        `/groups/${encodeURIComponent(groupId)}/users/${encodeURIComponent(userId)}`
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, groupId, userId }, null, 2) }],
+      };
+    }
+  );
+}
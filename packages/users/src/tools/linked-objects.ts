@@ -0,0 +1,238 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { OktaApiError, OktaClient, OktaUser, mapWithConcurrency } from "@okta-mcp/core";
+
+/** A user in a hierarchy walk. */
+interface HierarchyNode {
+  id: string;
+  login?: unknown;
+  name?: string;
+  status?: string;
+  /** Set when a link points at a user that no longer exists */
+  missing?: true;
+  reports?: HierarchyNode[];
+}
+
+const DEFINITIONS_PATH = "/meta/schemas/user/linkedObjects";
+
+export function registerLinkedObjectTools(server: McpServer, client: OktaClient): void {
+  server.tool(
+    "okta_list_linked_object_definitions",
+    "List the org's linked object definitions: named primary/associated relationship pairs between users, such as manager/subordinate. Use the primary name to set or read a user's manager and the associated name to list their direct reports.",
+    {},
+    async () => {
+      const resp = await client.get(DEFINITIONS_PATH);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_create_linked_object_definition",
+    "Define a linked object relationship between users, e.g. primary \"manager\" and associated \"subordinate\". Each user can have one primary link (one manager) and many users can point at the same primary. Names must be unique in the org and cannot be changed afterwards.",
+    {
+      primaryName: z.string().describe("API name of the primary side, e.g. manager"),
+      primaryTitle: z.string().describe("Display title of the primary side, e.g. Manager"),
+      primaryDescription: z.string().optional().describe("Description of the primary side"),
+      associatedName: z.string().describe("API name of the associated side, e.g. subordinate"),
+      associatedTitle: z.string().describe("Display title of the associated side, e.g. Subordinate"),
+      associatedDescription: z.string().optional().describe("Description of the associated side"),
+    },
+    async ({ primaryName, primaryTitle, primaryDescription, associatedName, associatedTitle, associatedDescription }) => {
+      const resp = await client.post(DEFINITIONS_PATH, {
+        primary: { name: primaryName, title: primaryTitle, description: primaryDescription, type: "USER" },
+        associated: { name: associatedName, title: associatedTitle, description: associatedDescription, type: "USER" },
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_delete_linked_object_definition",
+    "Delete a linked object definition by its primary or associated name. This removes the relationship and every link set with it from all users.",
+    {
+      name: z.string().describe("Primary or associated name of the definition to delete"),
+    },
+    async ({ name }) => {
+      const resp = await client.delete(`${DEFINITIONS_PATH}/${encodeURIComponent(name)}`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data ?? { success: true }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_set_linked_object",
+    "Link a user to their primary user for a relationship, e.g. set a user's manager. A user has at most one primary per relationship, so this replaces any existing link.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the associated user (e.g. the employee)"),
+      primaryName: z.string().describe("Primary name of the relationship, e.g. manager"),
+      primaryUserId: z.string().describe("Okta user ID of the primary user (e.g. the manager)"),
+    },
+    async ({ userId, primaryName, primaryUserId }) => {
+      const resp = await client.put(
+        `/users/${encodeURIComponent(userId)}/linkedObjects/${encodeURIComponent(primaryName)}/${encodeURIComponent(primaryUserId)}`
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data ?? { success: true }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_remove_linked_object",
+    "Remove a user's primary link for a relationship, e.g. clear a user's manager. The primary user is not changed.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the associated user"),
+      primaryName: z.string().describe("Primary name of the relationship, e.g. manager"),
+    },
+    async ({ userId, primaryName }) => {
+      const resp = await client.delete(
+        `/users/${encodeURIComponent(userId)}/linkedObjects/${encodeURIComponent(primaryName)}`
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data ?? { success: true }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_list_direct_reports",
+    "List the users linked to a user through the associated side of a relationship, e.g. a manager's direct reports. Returns each user's ID, login, name and status.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the primary user (e.g. the manager)"),
+      associatedName: z.string().optional().describe("Associated name of the relationship (default subordinate)"),
+    },
+    async ({ userId, associatedName }) => {
+      const ids = await linkedUserIds(client, userId, associatedName ?? "subordinate");
+      const reports = await mapWithConcurrency(ids, 4, (id) => describeLinkedUser(client, id));
+      return {
+        content: [{ type: "text", text: JSON.stringify(reports, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_get_user_hierarchy",
+    "Walk the linked object hierarchy from a user. Direction up follows the primary link (e.g. manager) to the root and returns the chain; direction down follows the associated link (e.g. subordinate) and returns the reporting tree. Cycles are detected and reported instead of followed, and links to users that no longer exist are marked missing.",
+    {
+      userId: z.string().describe("Okta user ID or login email to start from"),
+      direction: z.enum(["up", "down"]).describe("up for the manager chain to the root, down for the reporting tree"),
+      primaryName: z.string().optional().describe("Primary name of the relationship (default manager)"),
+      associatedName: z.string().optional().describe("Associated name of the relationship (default subordinate)"),
+      maxDepth: z.number().min(1).max(50).optional().describe("Maximum number of levels to walk (default 20)"),
+      maxUsers: z.number().min(1).max(5000).optional().describe("Maximum number of users to visit going down (default 1000)"),
+    },
+    async ({ userId, direction, primaryName, associatedName, maxDepth, maxUsers }) => {
+      const depthLimit = maxDepth ?? 20;
+      const start = await describeUser(client, userId);
+      const cycles: string[][] = [];
+
+      if (direction === "up") {
+        const chain: HierarchyNode[] = [start];
+        const seen = new Set([start.id]);
+        let reachedRoot = false;
+        while (chain.length <= depthLimit) {
+          const [managerId] = await linkedUserIds(client, chain[chain.length - 1].id, primaryName ?? "manager");
+          if (!managerId) {
+            reachedRoot = true;
+            break;
+          }
+          if (seen.has(managerId)) {
+            cycles.push([...chain.map((node) => node.id), managerId]);
+            break;
+          }
+          seen.add(managerId);
+          const manager = await describeLinkedUser(client, managerId);
+          chain.push(manager);
+          if (manager.missing) break;
+        }
+        const result = { direction, chain, reachedRoot, ...(cycles.length > 0 ? { cycles } : {}) };
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      const userLimit = maxUsers ?? 1000;
+      const visited = new Set([start.id]);
+      let truncated = false;
+      const expand = async (node: HierarchyNode, path: string[], depth: number): Promise<void> => {
+        const ids = await linkedUserIds(client, node.id, associatedName ?? "subordinate");
+        if (depth >= depthLimit) {
+          if (ids.some((id) => !visited.has(id))) truncated = true;
+          return;
+        }
+        const fresh: string[] = [];
+        for (const id of ids) {
+          if (path.includes(id)) {
+            cycles.push([...path, id]);
+          } else if (!visited.has(id)) {
+            if (visited.size >= userLimit) {
+              truncated = true;
+              break;
+            }
+            visited.add(id);
+            fresh.push(id);
+          }
+        }
+        node.reports = await mapWithConcurrency(fresh, 4, (id) => describeLinkedUser(client, id));
+        for (const report of node.reports) {
+          if (report.missing) continue;
+          await expand(report, [...path, report.id], depth + 1);
+        }
+      };
+      await expand(start, [start.id], 0);
+
+      const result = {
+        direction,
+        tree: start,
+        users: visited.size,
+        ...(cycles.length > 0 ? { cycles } : {}),
+        ...(truncated ? { truncated: "stopped at maxDepth or maxUsers; the tree goes deeper" } : {}),
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+}
+
+/**
+ * Returns the IDs of the users linked to `userId` by `relationship`.
+ * The API returns only links, so the ID is the last segment of each href.
+ */
+async function linkedUserIds(client: OktaClient, userId: string, relationship: string): Promise<string[]> {
+  const resp = await client.get<Array<{ _links?: { self?: { href?: string } } }>>(
+    `/users/${encodeURIComponent(userId)}/linkedObjects/${encodeURIComponent(relationship)}`
+  );
+  return resp.data
+    .map((link) => link._links?.self?.href?.split("/").pop())
+    .filter((id): id is string => Boolean(id));
+}
+
+async function describeUser(client: OktaClient, userId: string): Promise<HierarchyNode> {
+  const user = (await client.get<OktaUser>(`/users/${encodeURIComponent(userId)}`)).data;
+  return {
+    id: user.id,
+    login: user.profile.login,
+    name: [user.profile.firstName, user.profile.lastName].filter(Boolean).join(" "),
+    status: user.status,
+  };
+}
+
+/**
+ * Describes a user reached through a link. Links can outlive the user
+ * they point at, so a 404 yields a node marked missing instead of failing
+ * the whole walk.
+ */
+async function describeLinkedUser(client: OktaClient, userId: string): Promise<HierarchyNode> {
+  try {
+    return await describeUser(client, userId);
+  } catch (err) {
+    if (err instanceof OktaApiError && err.status === 404) return { id: userId, missing: true };
+    throw err;
+  }
+}
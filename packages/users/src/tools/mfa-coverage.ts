@@ -0,0 +1,190 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  OktaClient,
+  OktaGroup,
+  OktaUser,
+  describeToolError,
+  fetchAllPages,
+  mapWithConcurrency,
+} from "@okta-mcp/core";
+
+/** Factor types that can be phished or intercepted. */
+const WEAK_FACTORS = new Set(["sms", "call", "question", "email"]);
+
+/** Factor types bound to the origin or device, and so phishing-resistant. */
+const PHISHING_RESISTANT_FACTORS = new Set(["webauthn", "signed_nonce"]);
+
+type Coverage = "noFactors" | "weakOnly" | "standard" | "phishingResistant";
+
+const COVERAGE: Coverage[] = ["noFactors", "weakOnly", "standard", "phishingResistant"];
+
+interface UserCoverage {
+  id: string;
+  login: unknown;
+  coverage: Coverage;
+  /** Types of the user's ACTIVE factors */
+  factors: string[];
+}
+
+interface PendingFactor {
+  userId: string;
+  login: unknown;
+  factorId: string;
+  factorType: string;
+  created?: string;
+}
+
+/** How often, in users, a progress notification is sent. */
+const PROGRESS_EVERY = 25;
+
+export function registerMfaCoverageTools(server: McpServer, client: OktaClient): void {
+  server.tool(
+    "okta_get_mfa_coverage_report",
+    "Report MFA coverage across the org or a set of groups: users with no active factors, users with only weak factors (sms, call, question, email), users with phishing-resistant factors (webauthn, signed_nonce) and everyone else, plus factors stuck in PENDING_ACTIVATION. Reads each user's factors with bounded concurrency under the rate-limit governor and sends MCP progress notifications when the client asks for them. Returns counts, percentages and, optionally, the users in each category.",
+    {
+      groupIds: z.array(z.string()).optional().describe("Slice the report by these groups; only their ACTIVE members are scanned. Default: every ACTIVE user in the org."),
+      includeUsers: z.boolean().optional().describe("If true (default), list the users in each category; otherwise return counts only"),
+      maxUsers: z.number().min(1).max(50000).optional().describe("Maximum number of users to scan (default 10000)"),
+      concurrency: z.number().min(1).max(10).optional().describe("Maximum number of factor lookups in parallel (default 4). Requests are also paced by the rate-limit governor."),
+    },
+    async ({ groupIds, includeUsers, maxUsers, concurrency }, extra) => {
+      const limit = maxUsers ?? 10000;
+      const members = new Map<string, string[]>();
+      const users = new Map<string, OktaUser>();
+      let truncated = false;
+
+      const collect = async (path: string, params: Record<string, unknown>, groupId?: string) => {
+        const ids: string[] = [];
+        for await (const page of fetchAllPages<OktaUser>(client, path, params)) {
+          for (const user of page) {
+            // Group member lists include every status; count ACTIVE users only, like the org-wide search
+            if (user.status !== "ACTIVE") continue;
+            if (!users.has(user.id) && users.size >= limit) {
+              truncated = true;
+              return ids;
+            }
+            users.set(user.id, user);
+            ids.push(user.id);
+          }
+        }
+        if (groupId) members.set(groupId, ids);
+        return ids;
+      };
+
+      const groupNames = new Map<string, string>();
+      if (groupIds && groupIds.length > 0) {
+        for (const groupId of groupIds) {
+          const group = await client.get<OktaGroup>(`/groups/${encodeURIComponent(groupId)}`);
+          groupNames.set(groupId, group.data.profile.name);
+          members.set(groupId, await collect(`/groups/${encodeURIComponent(groupId)}/users`, { limit: 200 }, groupId));
+          if (truncated) break;
+        }
+      } else {
+        await collect("/users", { search: 'status eq "ACTIVE"', limit: 200 });
+      }
+
+      const total = users.size;
+      let done = 0;
+      const failures: Array<{ userId: string; login: unknown; error: string }> = [];
+      const pending: PendingFactor[] = [];
+      const coverage = new Map<string, UserCoverage>();
+
+      await mapWithConcurrency([...users.values()], concurrency ?? 4, async (user) => {
+        try {
+          const resp = await client.get<Array<{ id: string; factorType: string; status: string; created?: string }>>(
+            `/users/${encodeURIComponent(user.id)}/factors`
+          );
+          const active = resp.data.filter((f) => f.status === "ACTIVE").map((f) => f.factorType);
+          coverage.set(user.id, { id: user.id, login: user.profile.login, coverage: classify(active), factors: active });
+          for (const factor of resp.data.filter((f) => f.status === "PENDING_ACTIVATION")) {
+            pending.push({
+              userId: user.id,
+              login: user.profile.login,
+              factorId: factor.id,
+              factorType: factor.factorType,
+              created: factor.created,
+            });
+          }
+        } catch (err: unknown) {
+          failures.push({ userId: user.id, login: user.profile.login, error: describeToolError(err).summary });
+        }
+        done++;
+        if (done % PROGRESS_EVERY === 0 || done === total) {
+          await sendProgress(extra, done, total, `Read factors for ${done} of ${total} users`);
+        }
+      });
+
+      const summarize = (ids: string[]) => {
+        const scanned = ids.map((id) => coverage.get(id)).filter((c): c is UserCoverage => c !== undefined);
+        const counts: Record<string, unknown> = { users: scanned.length };
+        for (const category of COVERAGE) {
+          const count = scanned.filter((c) => c.coverage === category).length;
+          counts[category] = { count, percent: scanned.length ? Math.round((count / scanned.length) * 1000) / 10 : 0 };
+        }
+        return counts;
+      };
+
+      const byCategory = (ids: string[]) =>
+        Object.fromEntries(
+          COVERAGE.filter((category) => category !== "standard").map((category) => [
+            category,
+            ids.map((id) => coverage.get(id)).filter((c) => c?.coverage === category),
+          ])
+        );
+
+      const allIds = [...users.keys()];
+      const report = {
+        summary: summarize(allIds),
+        ...(groupIds && groupIds.length > 0
+          ? {
+              byGroup: [...members.entries()].map(([groupId, ids]) => ({
+                groupId,
+                name: groupNames.get(groupId),
+                ...summarize(ids),
+              })),
+            }
+          : {}),
+        pendingActivation: pending,
+        ...((includeUsers ?? true) ? { users: byCategory(allIds) } : {}),
+        ...(failures.length > 0 ? { failures } : {}),
+        ...(truncated ? { truncated: `stopped at maxUsers (${limit}); more users exist` } : {}),
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+      };
+    }
+  );
+}
+
+function classify(activeFactors: string[]): Coverage {
+  if (activeFactors.length === 0) return "noFactors";
+  if (activeFactors.some((type) => PHISHING_RESISTANT_FACTORS.has(type))) return "phishingResistant";
+  if (activeFactors.every((type) => WEAK_FACTORS.has(type))) return "weakOnly";
+  return "standard";
+}
+
+/**
+ * Sends an MCP progress notification if the caller supplied a progress
+ * token. Progress is best-effort: a failed notification (e.g. the client
+ * disconnected) must not fail the scan.
+ */
+async function sendProgress(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  progress: number,
+  total: number,
+  message: string
+): Promise<void> {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return;
+  try {
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, total, message },
+    });
+  } catch {
+    // Ignored; see above
+  }
+}
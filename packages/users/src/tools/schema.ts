@@ -0,0 +1,46 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { OktaClient, fetchUserAttributes, isSourceMastered } from "@okta-mcp/core";
+
+export function registerUserSchemaTools(server: McpServer, client: OktaClient): void {
+  server.tool(
+    "okta_list_user_types",
+    "List the user types defined in the org. Each user type has its own profile schema; pass a type's ID to okta_get_user_schema or as userTypeId to okta_create_user.",
+    {},
+    async () => {
+      const resp = await client.get("/meta/types/user");
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_get_user_schema",
+    "Describe every profile attribute available for a user type, base and custom: type, format, allowed values, whether it is required, whether it is read-only, and its master (source of truth). Call this before creating or updating users to learn which custom attributes exist. sourceMastered marks attributes an app (e.g. an HR source) overrides, which cannot be edited in Okta; PROFILE_MASTER attributes follow each user's profile master, so they are only locked for users sourced from a directory or app.",
+    {
+      userTypeId: z.string().optional().describe("User type ID from okta_list_user_types (default: the default user type)"),
+    },
+    async ({ userTypeId }) => {
+      const attributes = await fetchUserAttributes(client, userTypeId);
+      const described = [...attributes.values()].map(({ name, origin, required, property }) => ({
+        name,
+        title: property.title,
+        origin,
+        type: property.type,
+        itemType: property.items?.type,
+        format: property.format,
+        enum: property.enum ?? property.items?.enum,
+        enumTitles: property.oneOf?.map((o) => ({ value: o.const, title: o.title })),
+        required,
+        mutability: property.mutability,
+        master: property.master?.type ?? "PROFILE_MASTER",
+        masterPriority: property.master?.priority,
+        sourceMastered: isSourceMastered({ name, origin, required, property }),
+      }));
+      return {
+        content: [{ type: "text", text: JSON.stringify(described, null, 2) }],
+      };
+    }
+  );
+}
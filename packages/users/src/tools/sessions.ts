@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { OktaClient } from "@okta-mcp/core";
+import { OktaClient, describeToolError, listItems, paginationShape } from "@okta-mcp/core";
 
 export function registerSessionTools(server: McpServer, client: OktaClient): void {
   server.tool(
@@ -19,12 +19,15 @@ export function registerSessionTools(server: McpServer, client: OktaClient): voi
 
   server.tool(
     "okta_revoke_user_sessions",
-    "Revoke ALL active sessions for a user, forcing them to re-authenticate everywhere. Use for security incidents or when a user reports compromised credentials. For revoking a single specific session, use okta_revoke_session instead.",
+    "Revoke ALL active sessions for a user, forcing them to re-authenticate everywhere. Use for security incidents or when a user reports compromised credentials. Set oauthTokens to also revoke the OAuth access and refresh tokens issued to the user. For revoking a single specific session, use okta_revoke_session instead.",
     {
       userId: z.string().describe("Okta user ID or login email of the user whose ALL active sessions should be revoked"),
+      oauthTokens: z.boolean().optional().describe("If true, also revoke every OAuth access and refresh token issued to the user (default false)"),
     },
-    async ({ userId }) => {
-      const resp = await client.delete(`/users/${encodeURIComponent(userId)}/sessions`);
+    async ({ userId, oauthTokens }) => {
+      const resp = await client.delete(`/users/${encodeURIComponent(userId)}/sessions`, {
+        params: oauthTokens ? { oauthTokens: true } : undefined,
+      });
       return {
         content: [{ type: "text", text: JSON.stringify(resp.data ?? { success: true }, null, 2) }],
       };
@@ -44,4 +47,163 @@ export function registerSessionTools(server: McpServer, client: OktaClient): voi
       };
     }
   );
+
+  server.tool(
+    "okta_list_user_clients",
+    "List the OAuth client apps a user has granted consent to or holds tokens for. Use this during an account-compromise response to see which clients to revoke, then list or revoke their grants and refresh tokens.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the user"),
+    },
+    async ({ userId }) => {
+      const resp = await client.get(`/users/${encodeURIComponent(userId)}/clients`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_list_user_grants",
+    "List the OAuth grants (consents) a user has given: each grant is one scope approved for one client. Pass clientId to list only the grants for that client. Use okta_revoke_user_grants to withdraw them.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the user"),
+      clientId: z.string().optional().describe("Only list grants for this OAuth client ID"),
+      expandScope: z.boolean().optional().describe("If true, include the full scope object in each grant"),
+      limit: z.number().min(1).max(200).optional().describe("Maximum number of grants per page (max 200)"),
+      after: z.string().optional().describe("Pagination cursor returned in the previous response to fetch the next page"),
+      ...paginationShape,
+    },
+    async ({ userId, clientId, expandScope, limit, after, fetchAll, maxItems }) => {
+      const user = encodeURIComponent(userId);
+      const path = clientId ? `/users/${user}/clients/${encodeURIComponent(clientId)}/grants` : `/users/${user}/grants`;
+      const result = await listItems(
+        client,
+        path,
+        { expand: expandScope ? "scope" : undefined, limit, after },
+        { fetchAll, maxItems }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_revoke_user_grants",
+    "Revoke a user's OAuth grants (consents). Pass grantId to revoke one grant, clientId to revoke every grant for that client, or neither to revoke all of the user's grants. The user is asked for consent again the next time a client requests the scopes.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the user"),
+      grantId: z.string().optional().describe("ID of a single grant to revoke"),
+      clientId: z.string().optional().describe("Revoke every grant for this OAuth client ID"),
+    },
+    async ({ userId, grantId, clientId }) => {
+      if (grantId && clientId) {
+        throw new Error("Provide grantId or clientId, not both.");
+      }
+      const user = encodeURIComponent(userId);
+      const path = grantId
+        ? `/users/${user}/grants/${encodeURIComponent(grantId)}`
+        : clientId
+          ? `/users/${user}/clients/${encodeURIComponent(clientId)}/grants`
+          : `/users/${user}/grants`;
+      const resp = await client.delete(path);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data ?? { success: true }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_list_user_refresh_tokens",
+    "List the refresh tokens an OAuth client holds for a user. Use okta_list_user_clients to find the clients, and okta_revoke_user_refresh_tokens to revoke the tokens.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the user"),
+      clientId: z.string().describe("OAuth client ID the tokens were issued to"),
+      expandScope: z.boolean().optional().describe("If true, include the full scope objects in each token"),
+      limit: z.number().min(1).max(200).optional().describe("Maximum number of tokens per page (max 200)"),
+      after: z.string().optional().describe("Pagination cursor returned in the previous response to fetch the next page"),
+      ...paginationShape,
+    },
+    async ({ userId, clientId, expandScope, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        `/users/${encodeURIComponent(userId)}/clients/${encodeURIComponent(clientId)}/tokens`,
+        { expand: expandScope ? "scope" : undefined, limit, after },
+        { fetchAll, maxItems }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_revoke_user_refresh_tokens",
+    "Revoke refresh tokens an OAuth client holds for a user. Pass tokenId to revoke one token, or omit it to revoke every refresh token for the client. The client must send the user through sign-in again to get new tokens.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the user"),
+      clientId: z.string().describe("OAuth client ID the tokens were issued to"),
+      tokenId: z.string().optional().describe("ID of a single refresh token to revoke"),
+    },
+    async ({ userId, clientId, tokenId }) => {
+      const tokens = `/users/${encodeURIComponent(userId)}/clients/${encodeURIComponent(clientId)}/tokens`;
+      const resp = await client.delete(tokenId ? `${tokens}/${encodeURIComponent(tokenId)}` : tokens);
+      return {
+        content: [{ type: "text", text: JSON.stringify(resp.data ?? { success: true }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_revoke_all_user_access",
+    "Kill everything for a compromised account in one call: revoke all browser sessions together with OAuth access and refresh tokens, revoke every OAuth grant, then revoke the remaining refresh tokens of each client the user has used (listed before anything is revoked). Each step is reported separately and a failure does not stop later steps, but marks the result as an error. The user's status, password and factors are left unchanged.",
+    {
+      userId: z.string().describe("Okta user ID or login email of the compromised user"),
+    },
+    async ({ userId }) => {
+      const user = encodeURIComponent(userId);
+      const steps: Array<{ step: string; status: "done" | "failed"; detail?: string }> = [];
+      const run = async (step: string, fn: () => Promise<string | void>) => {
+        try {
+          const detail = await fn();
+          steps.push({ step, status: "done", ...(detail ? { detail } : {}) });
+        } catch (err: unknown) {
+          steps.push({ step, status: "failed", detail: describeToolError(err).summary });
+        }
+      };
+
+      // List clients first: revoking sessions and grants can drop them from the list
+      let clientIds: string[] | undefined;
+      await run("list_clients", async () => {
+        const clients = await client.get<Array<{ client_id: string }>>(`/users/${user}/clients`);
+        clientIds = clients.data.map((c) => c.client_id);
+        return `${clientIds.length} client(s)`;
+      });
+      await run("revoke_sessions_and_tokens", async () => {
+        await client.delete(`/users/${user}/sessions`, { params: { oauthTokens: true } });
+      });
+      await run("revoke_grants", async () => {
+        await client.delete(`/users/${user}/grants`);
+      });
+      await run("revoke_client_refresh_tokens", async () => {
+        if (!clientIds) throw new Error("skipped: the user's clients could not be listed");
+        const failed: string[] = [];
+        for (const clientId of clientIds) {
+          try {
+            await client.delete(`/users/${user}/clients/${encodeURIComponent(clientId)}/tokens`);
+          } catch (err: unknown) {
+            failed.push(`${clientId}: ${describeToolError(err).summary}`);
+          }
+        }
+        if (failed.length > 0) throw new Error(failed.join("; "));
+        return `${clientIds.length} client(s)`;
+      });
+
+      const failed = steps.some((s) => s.status === "failed");
+      return {
+        content: [{ type: "text", text: JSON.stringify({ userId, steps }, null, 2) }],
+        ...(failed ? { isError: true } : {}),
+      };
+    }
+  );
 }
@@ -0,0 +1,246 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import fs from "node:fs";
+import {
+  OktaClient,
+  OktaUser,
+  describeToolError,
+  fetchAllPages,
+  mapWithConcurrency,
+  resolveDataPath,
+} from "@okta-mcp/core";
+import { toCsv } from "../csv.js";
+
+type StaleCategory = "dormant" | "never_activated" | "expired_password" | "locked_out";
+
+const CATEGORIES: StaleCategory[] = ["dormant", "never_activated", "expired_password", "locked_out"];
+
+interface StaleAccount {
+  id: string;
+  login: unknown;
+  name: string;
+  email: unknown;
+  status: string;
+  category: StaleCategory;
+  department: unknown;
+  manager: unknown;
+  created: string;
+  activated: string | null;
+  lastLogin: string | null;
+  statusChanged: string | null;
+  /** Days since the last login, activation or status change that made the account stale */
+  daysIdle: number;
+}
+
+interface StaleOptions {
+  inactiveDays: number;
+  pendingDays: number;
+  expiredPasswordDays: number;
+  categories: StaleCategory[];
+  maxUsers: number;
+}
+
+const CSV_COLUMNS = [
+  "category", "id", "login", "name", "email", "status", "department", "manager",
+  "created", "activated", "lastLogin", "statusChanged", "daysIdle",
+];
+
+/** Thresholds shared by the report and the suspend tool. */
+const thresholdShape = {
+  inactiveDays: z.number().min(1).optional().describe("ACTIVE users with no login for this many days are dormant (default 90)"),
+  pendingDays: z.number().min(1).optional().describe("STAGED or PROVISIONED users created this many days ago and never activated are flagged (default 30)"),
+  expiredPasswordDays: z.number().min(1).optional().describe("Users whose password has been expired for this many days are flagged (default 30)"),
+  maxUsers: z.number().min(1).max(50000).optional().describe("Maximum number of users read per category (default 10000)"),
+};
+
+export function registerStaleAccountTools(server: McpServer, client: OktaClient): void {
+  server.tool(
+    "okta_get_stale_account_report",
+    "Scan the org for stale and dormant accounts: ACTIVE users with no login in N days (dormant), STAGED/PROVISIONED users never activated after N days, users whose expired password has sat unused for N days, and LOCKED_OUT users. Uses server-side search on status and dates with automatic pagination. Results are grouped by department or manager and can be returned or written as CSV. Use okta_suspend_stale_accounts to suspend the dormant ones.",
+    {
+      ...thresholdShape,
+      categories: z.array(z.enum(["dormant", "never_activated", "expired_password", "locked_out"])).optional().describe("Categories to report (default all)"),
+      groupBy: z.enum(["department", "manager", "none"]).optional().describe("Group flagged accounts by profile.department or profile.manager (default department)"),
+      format: z.enum(["json", "csv"]).optional().describe("json (default) for the grouped report, csv for one row per flagged account"),
+      outputFile: z.string().optional().describe("Also write the CSV to this path inside the server's data directory (OKTA_DATA_DIR, default ~/.okta-mcp/data)"),
+    },
+    async ({ inactiveDays, pendingDays, expiredPasswordDays, maxUsers, categories, groupBy, format, outputFile }) => {
+      const outputPath = outputFile === undefined ? undefined : resolveDataPath(outputFile);
+      const { accounts, truncated } = await findStaleAccounts(client, {
+        inactiveDays: inactiveDays ?? 90,
+        pendingDays: pendingDays ?? 30,
+        expiredPasswordDays: expiredPasswordDays ?? 30,
+        categories: categories ?? CATEGORIES,
+        maxUsers: maxUsers ?? 10000,
+      });
+
+      const csv = format === "csv" || outputFile ? toCsv(accounts as unknown as Record<string, unknown>[], CSV_COLUMNS) : undefined;
+      if (outputPath) {
+        fs.writeFileSync(outputPath, csv!);
+      }
+      if (format === "csv") {
+        return {
+          content: [{ type: "text", text: csv! }],
+        };
+      }
+
+      const counts = Object.fromEntries(
+        CATEGORIES.map((category) => [category, accounts.filter((a) => a.category === category).length])
+      );
+      const key = groupBy ?? "department";
+      const groups: Record<string, StaleAccount[]> = {};
+      if (key !== "none") {
+        for (const account of accounts) {
+          const value = account[key];
+          const name = value === undefined || value === null || value === "" ? "(none)" : String(value);
+          (groups[name] ??= []).push(account);
+        }
+      }
+
+      const report = {
+        summary: { flagged: accounts.length, ...counts },
+        ...(truncated.length > 0 ? { truncated: truncated.map((c) => `${c}: stopped at maxUsers; more users may match`) } : {}),
+        ...(outputFile ? { outputFile } : {}),
+        ...(key === "none" ? { accounts } : { groupedBy: key, groups }),
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_suspend_stale_accounts",
+    "Suspend dormant accounts: ACTIVE users with no login in N days, as found by okta_get_stale_account_report. Suspension keeps app assignments and group memberships and can be undone with okta_unsuspend_user. Pass userIds to suspend only the reviewed accounts. Returns a per-user report.",
+    {
+      inactiveDays: thresholdShape.inactiveDays,
+      maxUsers: thresholdShape.maxUsers,
+      userIds: z.array(z.string()).optional().describe("IDs of the dormant users to suspend (default: every dormant user found)"),
+      excludeUserIds: z.array(z.string()).optional().describe("IDs of users never to suspend, e.g. break-glass or service accounts"),
+      concurrency: z.number().min(1).max(10).optional().describe("Maximum number of users suspended in parallel (default 4)"),
+    },
+    async ({ inactiveDays, maxUsers, userIds, excludeUserIds, concurrency }) => {
+      const { accounts, truncated } = await findStaleAccounts(client, {
+        inactiveDays: inactiveDays ?? 90,
+        pendingDays: 0,
+        expiredPasswordDays: 0,
+        categories: ["dormant"],
+        maxUsers: maxUsers ?? 10000,
+      });
+
+      const dormant = new Set(accounts.map((a) => a.id));
+      const notDormant = (userIds ?? []).filter((id) => !dormant.has(id));
+      if (notDormant.length > 0) {
+        throw new Error(
+          `Not dormant users: ${notDormant.join(", ")}. Only ACTIVE users with no login in ${inactiveDays ?? 90} days can be suspended here.`
+        );
+      }
+      const exclude = new Set(excludeUserIds ?? []);
+      const selected = userIds ? accounts.filter((a) => userIds.includes(a.id)) : accounts;
+      const excluded = selected.filter((a) => exclude.has(a.id)).map((a) => a.id);
+      const targets = selected.filter((a) => !exclude.has(a.id));
+
+      const results = await mapWithConcurrency(targets, concurrency ?? 4, async (account) => {
+        try {
+          await client.post(`/users/${encodeURIComponent(account.id)}/lifecycle/suspend`);
+          return { id: account.id, login: account.login, lastLogin: account.lastLogin, status: "suspended" };
+        } catch (err: unknown) {
+          return { id: account.id, login: account.login, lastLogin: account.lastLogin, status: "failed", error: describeToolError(err).summary };
+        }
+      });
+
+      const report = {
+        summary: {
+          dormant: accounts.length,
+          suspended: results.filter((r) => r.status === "suspended").length,
+          failed: results.filter((r) => r.status === "failed").length,
+          notSelected: accounts.length - selected.length,
+          excluded: excluded.length,
+        },
+        ...(excluded.length > 0 ? { excludedUserIds: excluded } : {}),
+        ...(truncated.length > 0 ? { truncated: "stopped at maxUsers; more dormant users may exist" } : {}),
+        results,
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+      };
+    }
+  );
+}
+
+/**
+ * Runs one search per category and re-checks each user locally, since
+ * the search can only narrow by status and dates.
+ */
+async function findStaleAccounts(
+  client: OktaClient,
+  options: StaleOptions
+): Promise<{ accounts: StaleAccount[]; truncated: StaleCategory[] }> {
+  const now = Date.now();
+  const cutoff = (days: number) => new Date(now - days * 86_400_000).toISOString();
+  const daysSince = (date: string | null) => (date ? Math.floor((now - Date.parse(date)) / 86_400_000) : 0);
+
+  const searches: Record<StaleCategory, { search: string; since: (u: OktaUser) => string | null; days: number }> = {
+    // Users who never logged in count from activation
+    dormant: {
+      search: `status eq "ACTIVE" and (lastLogin lt "${cutoff(options.inactiveDays)}" or activated lt "${cutoff(options.inactiveDays)}")`,
+      since: (u) => u.lastLogin ?? u.activated ?? u.created,
+      days: options.inactiveDays,
+    },
+    never_activated: {
+      search: `(status eq "STAGED" or status eq "PROVISIONED") and created lt "${cutoff(options.pendingDays)}"`,
+      since: (u) => u.created,
+      days: options.pendingDays,
+    },
+    expired_password: {
+      search: `status eq "PASSWORD_EXPIRED" and statusChanged lt "${cutoff(options.expiredPasswordDays)}"`,
+      since: (u) => u.statusChanged ?? u.passwordChanged,
+      days: options.expiredPasswordDays,
+    },
+    locked_out: {
+      search: `status eq "LOCKED_OUT"`,
+      since: (u) => u.statusChanged,
+      days: 0,
+    },
+  };
+
+  const accounts: StaleAccount[] = [];
+  const truncated: StaleCategory[] = [];
+  for (const category of options.categories) {
+    const { search, since, days } = searches[category];
+    let read = 0;
+    for await (const page of fetchAllPages<OktaUser>(client, "/users", { search, limit: 200 })) {
+      for (const user of page) {
+        const idle = daysSince(since(user));
+        if (idle >= days) {
+          accounts.push(toStaleAccount(user, category, idle));
+        }
+      }
+      read += page.length;
+      if (read >= options.maxUsers) {
+        truncated.push(category);
+        break;
+      }
+    }
+  }
+  return { accounts, truncated };
+}
+
+function toStaleAccount(user: OktaUser, category: StaleCategory, daysIdle: number): StaleAccount {
+  const { profile } = user;
+  return {
+    id: user.id,
+    login: profile.login,
+    name: [profile.firstName, profile.lastName].filter(Boolean).join(" "),
+    email: profile.email,
+    status: user.status,
+    category,
+    department: profile.department,
+    manager: profile.manager ?? profile.managerId,
+    created: user.created,
+    activated: user.activated,
+    lastLogin: user.lastLogin,
+    statusChanged: user.statusChanged,
+    daysIdle,
+  };
+}
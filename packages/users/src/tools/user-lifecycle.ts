@@ -1,6 +1,13 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { OktaClient } from "@okta-mcp/core";
+import {
+  OktaClient,
+  fetchUserAttributes,
+  listItems,
+  paginationShape,
+  updateUserProfile,
+  validateProfile,
+} from "@okta-mcp/core";
 
 export function registerUserLifecycleTools(server: McpServer, client: OktaClient): void {
   server.tool(
@@ -12,13 +19,17 @@ export function registerUserLifecycleTools(server: McpServer, client: OktaClient
       filter: z.string().optional().describe("Okta filter expression, e.g. status eq \"ACTIVE\""),
       limit: z.number().min(1).max(200).optional().describe("Maximum number of results per page (default 50, max 200)"),
       after: z.string().optional().describe("Pagination cursor returned in the previous response to fetch the next page"),
+      ...paginationShape,
     },
-    async ({ q, search, filter, limit, after }) => {
-      const resp = await client.get("/users", {
-        params: { q, search, filter, limit, after },
-      });
+    async ({ q, search, filter, limit, after, fetchAll, maxItems }) => {
+      const result = await listItems(
+        client,
+        "/users",
+        { q, search, filter, limit, after },
+        { fetchAll, maxItems }
+      );
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
     }
   );
@@ -51,18 +62,25 @@ export function registerUserLifecycleTools(server: McpServer, client: OktaClient
         department: z.string().optional().describe("User's department"),
         title: z.string().optional().describe("User's job title"),
         organization: z.string().optional().describe("User's organization name"),
-      }).describe("User profile attributes"),
+      }).passthrough().describe("User profile attributes. Any base or custom attribute listed by okta_get_user_schema may be included; the profile is validated against the schema before the user is created"),
       credentials: z.object({
         password: z.object({
           value: z.string().describe("Plain-text password to set on creation"),
         }).optional().describe("Password credential object"),
       }).optional().describe("Optional credentials to set at creation time"),
       activate: z.boolean().optional().describe("If true, activate the user immediately (default false, creates in STAGED status)"),
+      userTypeId: z.string().optional().describe("User type ID from okta_list_user_types (default: the default user type)"),
     },
-    async ({ profile, credentials, activate }) => {
+    async ({ profile, credentials, activate, userTypeId }) => {
+      const attributes = await fetchUserAttributes(client, userTypeId);
+      const problems = validateProfile(profile, attributes);
+      if (problems.length > 0) {
+        throw new Error(`Profile does not match the user schema: ${problems.join("; ")}.`);
+      }
+
       const resp = await client.post(
         "/users",
-        { profile, credentials },
+        { profile, credentials, ...(userTypeId ? { type: { id: userTypeId } } : {}) },
         { params: { activate } }
       );
       return {
@@ -73,7 +91,7 @@ export function registerUserLifecycleTools(server: McpServer, client: OktaClient
 
   server.tool(
     "okta_update_user",
-    "Update one or more profile attributes of an existing Okta user. Only the fields provided in the profile object are changed; all omitted fields remain unchanged. Use this for name changes, department updates, and other profile edits.",
+    "Update one or more profile attributes of an existing Okta user. Only the fields provided in the profile object are changed; all omitted fields remain unchanged. Use this for name changes, department updates, and other profile edits. Attributes mastered by the user's HR or directory source are rejected before calling Okta.",
     {
       userId: z.string().describe("Okta user ID (e.g. 00u1abcdef) or login email of the user to update"),
       profile: z.object({
@@ -94,12 +112,12 @@ export function registerUserLifecycleTools(server: McpServer, client: OktaClient
         division: z.string().optional().describe("Updated division"),
         manager: z.string().optional().describe("Updated manager name"),
         managerId: z.string().optional().describe("Updated manager ID"),
-      }).describe("Partial profile object — only specified fields are updated"),
+      }).passthrough().describe("Partial profile object — only specified fields are updated. Custom attributes listed by okta_get_user_schema may be included"),
     },
     async ({ userId, profile }) => {
-      const resp = await client.post(`/users/${encodeURIComponent(userId)}`, { profile });
+      const user = await updateUserProfile(client, userId, profile);
       return {
-        content: [{ type: "text", text: JSON.stringify(resp.data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(user, null, 2) }],
       };
     }
   );
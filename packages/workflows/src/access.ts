@@ -0,0 +1,182 @@
+import {
+  HARD_MAX_ITEMS,
+  IgaBundle,
+  IgaClient,
+  IgaEntitlement,
+  OktaApiError,
+  OktaClient,
+  OktaGroup,
+  OktaUser,
+  describeToolError,
+  listItems,
+  mapWithConcurrency,
+  type PageableClient,
+} from "@okta-mcp/core";
+
+/** An app the user can access, from /users/{id}/appLinks. */
+export interface AppAccess {
+  appId: string;
+  appName: string;
+  label: string;
+  /**
+   * How the app is assigned: USER (directly) or GROUP (through a group
+   * assignment). Only set when app scope was resolved.
+   */
+  scope?: "USER" | "GROUP";
+  /** The app user's profile, when app scope was resolved */
+  appUserProfile?: Record<string, unknown>;
+  /** The user's groups that are assigned to the app, when app groups were resolved */
+  viaGroups?: Array<{ id: string; name: string }>;
+}
+
+export interface AdminRole {
+  id: string;
+  type: string;
+  label?: string;
+  assignmentType?: string;
+  [key: string]: unknown;
+}
+
+export interface Factor {
+  id: string;
+  factorType: string;
+  provider: string;
+  status: string;
+  [key: string]: unknown;
+}
+
+export interface OAuthGrant {
+  id: string;
+  clientId: string;
+  scopeId: string;
+  status: string;
+  [key: string]: unknown;
+}
+
+/** Everything a user can currently access, gathered from Okta and IGA. */
+export interface UserAccess {
+  user: OktaUser;
+  groups: OktaGroup[];
+  apps: AppAccess[];
+  adminRoles: AdminRole[];
+  factors: Factor[];
+  grants: OAuthGrant[];
+  entitlements: IgaEntitlement[];
+  bundles: IgaBundle[];
+  /** Only collected with `devices: true` */
+  devices: Array<Record<string, unknown>>;
+  /** Sources that could not be read (e.g. IGA not licensed), one line each */
+  warnings: string[];
+}
+
+export interface CollectOptions {
+  /** Look up each app assignment to tell direct from group-based ones */
+  resolveAppScope?: boolean;
+  /** Also list which of the user's groups grant each app (implies resolveAppScope) */
+  resolveAppGroups?: boolean;
+  /** Also list the user's registered devices */
+  devices?: boolean;
+}
+
+/**
+ * Gathers a user's groups, apps, admin roles, factors, OAuth grants, IGA
+ * entitlements and bundles and, optionally, devices. Okta has no API that
+ * lists a user's sessions, so they are not collected. The user
+ * must exist; every other source that fails is reported in `warnings` and
+ * left empty, so one unavailable API (IGA without a license, say) doesn't
+ * hide the rest.
+ */
+export async function collectUserAccess(
+  client: OktaClient,
+  iga: IgaClient,
+  userIdOrLogin: string,
+  options: CollectOptions = {},
+): Promise<UserAccess> {
+  const userResp = await client.get<OktaUser>(`/users/${encodeURIComponent(userIdOrLogin)}`);
+  const user = userResp.data;
+  const userPath = `/users/${encodeURIComponent(user.id)}`;
+  const warnings: string[] = [];
+
+  const [groups, appLinks, adminRoles, factors, grants, entitlements, bundles, devices] =
+    await Promise.all([
+      listAll<OktaGroup>(client, `${userPath}/groups`, "groups", warnings),
+      listAll<{ appInstanceId: string; appName: string; label: string }>(
+        client, `${userPath}/appLinks`, "app links", warnings),
+      listAll<AdminRole>(client, `${userPath}/roles`, "admin roles", warnings),
+      listAll<Factor>(client, `${userPath}/factors`, "factors", warnings),
+      listAll<OAuthGrant>(client, `${userPath}/grants`, "OAuth grants", warnings),
+      listAll<IgaEntitlement>(iga, `${userPath}/entitlements`, "IGA entitlements", warnings),
+      listAll<IgaBundle>(iga, `${userPath}/bundles`, "IGA bundles", warnings),
+      options.devices
+        ? listAll<Record<string, unknown>>(client, `${userPath}/devices`, "devices", warnings)
+        : Promise.resolve([]),
+    ]);
+
+  // A user has one appLink per app link, so several per app for some apps
+  const apps = new Map<string, AppAccess>();
+  for (const link of appLinks) {
+    if (!apps.has(link.appInstanceId)) {
+      apps.set(link.appInstanceId, { appId: link.appInstanceId, appName: link.appName, label: link.label });
+    }
+  }
+
+  if (options.resolveAppScope || options.resolveAppGroups) {
+    await mapWithConcurrency([...apps.values()], 4, async (app) => {
+      try {
+        const resp = await client.get<{ scope: "USER" | "GROUP"; profile?: Record<string, unknown> }>(
+          `/apps/${encodeURIComponent(app.appId)}/users/${encodeURIComponent(user.id)}`,
+        );
+        app.scope = resp.data.scope;
+        app.appUserProfile = resp.data.profile;
+        if (options.resolveAppGroups && app.scope === "GROUP") {
+          const appGroups = await listAll<{ id: string }>(
+            client, `/apps/${encodeURIComponent(app.appId)}/groups`, `groups of app ${app.label}`, warnings);
+          const assigned = new Set(appGroups.map((g) => g.id));
+          app.viaGroups = groups
+            .filter((g) => assigned.has(g.id))
+            .map((g) => ({ id: g.id, name: g.profile.name }));
+        }
+      } catch (err: unknown) {
+        warnings.push(`app ${app.label} (${app.appId}): ${describeToolError(err).summary}`);
+      }
+    });
+  }
+
+  return {
+    user,
+    groups,
+    apps: [...apps.values()],
+    adminRoles,
+    factors,
+    grants,
+    entitlements,
+    bundles,
+    devices,
+    warnings,
+  };
+}
+
+/**
+ * Collects every page of a list endpoint, or returns [] and records a
+ * warning when it fails. A 404 (e.g. no IGA entitlements resource) is
+ * treated as an empty list.
+ */
+async function listAll<T>(
+  client: PageableClient,
+  path: string,
+  label: string,
+  warnings: string[],
+): Promise<T[]> {
+  try {
+    const result = await listItems<T>(client, path, {}, { fetchAll: true, maxItems: HARD_MAX_ITEMS });
+    if (result.truncated) {
+      warnings.push(`${label}: only the first ${HARD_MAX_ITEMS} were read`);
+    }
+    return result.items;
+  } catch (err: unknown) {
+    if (!(err instanceof OktaApiError && err.status === 404)) {
+      warnings.push(`${label}: ${describeToolError(err).summary}`);
+    }
+    return [];
+  }
+}
@@ -0,0 +1,117 @@
+import { IgaClient, OktaClient, describeToolError } from "@okta-mcp/core";
+import type { TemplateGrants } from "./templates.js";
+
+/** One piece of access that can be granted to or revoked from a user. */
+export interface GrantItem {
+  kind: "group" | "app" | "bundle" | "entitlement" | "adminRole";
+  /** Group, app, bundle or IGA entitlement ID, or the admin role type */
+  id: string;
+  /** App-user profile, for apps */
+  profile?: Record<string, unknown>;
+}
+
+/** Outcome of granting or revoking one item. */
+export interface GrantResult extends GrantItem {
+  status: "done" | "failed";
+  detail?: string;
+}
+
+/** Flattens merged template grants into individual items. */
+export function toGrantItems(grants: TemplateGrants): GrantItem[] {
+  return [
+    ...grants.groups.map((id) => ({ kind: "group" as const, id })),
+    ...grants.apps.map((app) => ({ kind: "app" as const, id: app.appId, profile: app.profile })),
+    ...grants.bundles.map((id) => ({ kind: "bundle" as const, id })),
+    ...grants.adminRoles.map((id) => ({ kind: "adminRole" as const, id })),
+  ];
+}
+
+/**
+ * Grants each item to the user, in order. Failures are recorded per item
+ * and do not stop the remaining grants.
+ */
+export async function grantItems(
+  client: OktaClient,
+  iga: IgaClient,
+  userId: string,
+  items: GrantItem[],
+): Promise<GrantResult[]> {
+  const user = encodeURIComponent(userId);
+  return runEach(items, async (item) => {
+    const id = encodeURIComponent(item.id);
+    switch (item.kind) {
+      case "group":
+        await client.put(`/groups/${id}/users/${user}`);
+        break;
+      case "app":
+        await client.post(`/apps/${id}/users`, {
+          id: userId,
+          scope: "USER",
+          ...(item.profile ? { profile: item.profile } : {}),
+        });
+        break;
+      case "bundle":
+        await iga.post(`/users/${user}/bundles`, { bundleId: item.id });
+        break;
+      case "entitlement":
+        await iga.post(`/users/${user}/entitlements`, { entitlementId: item.id });
+        break;
+      case "adminRole":
+        await client.post(`/users/${user}/roles`, { type: item.id });
+        break;
+    }
+  });
+}
+
+/**
+ * Revokes each item from the user. Admin roles are looked up by type to
+ * find the user's role assignment ID.
+ */
+export async function revokeItems(
+  client: OktaClient,
+  iga: IgaClient,
+  userId: string,
+  items: GrantItem[],
+): Promise<GrantResult[]> {
+  const user = encodeURIComponent(userId);
+  return runEach(items, async (item) => {
+    const id = encodeURIComponent(item.id);
+    switch (item.kind) {
+      case "group":
+        await client.delete(`/groups/${id}/users/${user}`);
+        break;
+      case "app":
+        await client.delete(`/apps/${id}/users/${user}`);
+        break;
+      case "bundle":
+        await iga.delete(`/users/${user}/bundles/${id}`);
+        break;
+      case "entitlement":
+        await iga.delete(`/users/${user}/entitlements/${id}`);
+        break;
+      case "adminRole": {
+        const roles = await client.get<Array<{ id: string; type: string }>>(`/users/${user}/roles`);
+        const role = roles.data.find((r) => r.type === item.id);
+        if (!role) throw new Error(`user has no ${item.id} role assigned directly`);
+        await client.delete(`/users/${user}/roles/${encodeURIComponent(role.id)}`);
+        break;
+      }
+    }
+  });
+}
+
+async function runEach(
+  items: GrantItem[],
+  fn: (item: GrantItem) => Promise<void>,
+): Promise<GrantResult[]> {
+  const results: GrantResult[] = [];
+  for (const item of items) {
+    try {
+      await fn(item);
+      results.push({ ...item, status: "done" });
+    } catch (err: unknown) {
+      results.push({ ...item, status: "failed", detail: describeToolError(err).summary });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  OktaClient,
+  IgaClient,
+  ClientPool,
+  installDryRun,
+  installOrgRouting,
+  installToolErrorHandling,
+  installToolPolicy,
+} from "@okta-mcp/core";
+import { registerOffboardingTools } from "./tools/offboarding.js";
+import { registerOnboardingTools } from "./tools/onboarding.js";
+import { registerMoverTools } from "./tools/mover.js";
+import { registerAccessProfileTools } from "./tools/access-profile.js";
+import { registerAccessCompareTools } from "./tools/access-compare.js";
+
+// Workflows span the Management and IGA APIs, so this server holds a client for each.
+// Both pools read the same org profiles, so routing by org applies to both.
+const requiredScopes = [
+  "okta.users.read",
+  "okta.users.manage",
+  "okta.groups.read",
+  "okta.groups.manage",
+  "okta.apps.read",
+  "okta.apps.manage",
+  "okta.roles.read",
+  "okta.roles.manage",
+  "okta.sessions.manage",
+  "okta.devices.read",
+  "okta.orgs.read",
+];
+const oktaClients = new ClientPool((options) => new OktaClient(options), { requiredScopes });
+const igaClients = new ClientPool((options) => new IgaClient(options), { requiredScopes });
+const client = oktaClients.routed();
+const iga = igaClients.routed();
+
+const server = new McpServer({
+  name: "okta-mcp-workflows",
+  version: "0.1.0",
+});
+installToolPolicy(server);
+installToolErrorHandling(server);
+installOrgRouting(server, oktaClients);
+installDryRun(server);
+
+registerAccessProfileTools(server, client, iga);
+registerAccessCompareTools(server, client, iga);
+registerOnboardingTools(server, client, iga);
+registerMoverTools(server, client, iga);
+registerOffboardingTools(server, client, iga);
+
+const transport = new StdioServerTransport();
+await server.connect(transport);
@@ -0,0 +1,151 @@
+import fs from "node:fs";
+import { parse as parseYaml } from "yaml";
+import { resolveDataPath } from "@okta-mcp/core";
+
+/**
+ * Onboarding templates: declarative access packages keyed by profile
+ * attributes.
+ *
+ * Templates live in a JSON or YAML file named by OKTA_ONBOARDING_TEMPLATES:
+ *
+ *   templates:
+ *     - name: everyone
+ *       groups: [00gAllStaff]
+ *     - name: engineering
+ *       match:
+ *         department: Engineering
+ *         title: ["*Engineer*", "*SRE*"]
+ *       groups: [00gEng]
+ *       apps:
+ *         - appId: 0oaGithub
+ *           profile: { role: member }
+ *       bundles: [0bnDevTools]
+ *     - name: it-support
+ *       match: { department: IT, userType: Employee }
+ *       adminRole: HELP_DESK_ADMIN
+ *
+ * Every template whose `match` fits the user applies; a template without
+ * `match` applies to everyone.
+ */
+
+/** An app assignment granted by a template. */
+export interface TemplateApp {
+  appId: string;
+  /** App-user profile values, e.g. a role or license attribute */
+  profile?: Record<string, unknown>;
+}
+
+export interface OnboardingTemplate {
+  name: string;
+  /**
+   * Profile attribute → accepted value(s). Values may use `*` wildcards
+   * and match case-insensitively. All listed attributes must match.
+   */
+  match?: Record<string, string | string[]>;
+  groups?: string[];
+  apps?: TemplateApp[];
+  /** IGA entitlement bundle IDs */
+  bundles?: string[];
+  /** Admin role type, e.g. HELP_DESK_ADMIN */
+  adminRole?: string;
+}
+
+/** The access a set of templates grants, merged and de-duplicated. */
+export interface TemplateGrants {
+  templates: string[];
+  groups: string[];
+  apps: TemplateApp[];
+  bundles: string[];
+  adminRoles: string[];
+}
+
+/**
+ * Reads the template file named by OKTA_ONBOARDING_TEMPLATES or, when a
+ * tool caller passes `file`, that file inside the data directory (see
+ * resolveDataPath). Files ending in .yaml or .yml are parsed as YAML,
+ * anything else as JSON.
+ */
+export function loadTemplates(file?: string): OnboardingTemplate[] {
+  const path = file !== undefined ? resolveDataPath(file) : process.env.OKTA_ONBOARDING_TEMPLATES;
+  if (!path) {
+    throw new Error(
+      "No onboarding templates configured. Set OKTA_ONBOARDING_TEMPLATES to a JSON or YAML template file.",
+    );
+  }
+
+  let raw: unknown;
+  try {
+    const text = fs.readFileSync(path, "utf8");
+    raw = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  } catch (err: unknown) {
+    throw new Error(
+      `Could not read onboarding templates ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const templates = (raw as { templates?: unknown })?.templates;
+  if (!Array.isArray(templates)) {
+    throw new Error(`Onboarding template file ${path} must have a "templates" list.`);
+  }
+  for (const [i, template] of templates.entries()) {
+    if (typeof template?.name !== "string") {
+      throw new Error(`Template #${i + 1} in ${path} needs a name.`);
+    }
+    if (template.apps?.some((app: Partial<TemplateApp>) => typeof app?.appId !== "string")) {
+      throw new Error(`Template "${template.name}" in ${path} has an app without an appId.`);
+    }
+  }
+  return templates as OnboardingTemplate[];
+}
+
+/** Returns the templates whose `match` conditions all hold for `profile`. */
+export function matchTemplates(
+  templates: OnboardingTemplate[],
+  profile: Record<string, unknown>,
+): OnboardingTemplate[] {
+  return templates.filter((template) =>
+    Object.entries(template.match ?? {}).every(([attribute, accepted]) => {
+      const value = profile[attribute];
+      if (value === undefined || value === null) return false;
+      const patterns = Array.isArray(accepted) ? accepted : [accepted];
+      return patterns.some((pattern) => matchesWildcard(String(value), pattern));
+    }),
+  );
+}
+
+/**
+ * Merges the grants of several templates. When two templates assign the
+ * same app, their app-user profiles are merged with later templates
+ * winning.
+ */
+export function mergeGrants(templates: OnboardingTemplate[]): TemplateGrants {
+  const apps = new Map<string, TemplateApp>();
+  for (const app of templates.flatMap((t) => t.apps ?? [])) {
+    const existing = apps.get(app.appId);
+    apps.set(app.appId, {
+      appId: app.appId,
+      profile: existing?.profile || app.profile ? { ...existing?.profile, ...app.profile } : undefined,
+    });
+  }
+
+  return {
+    templates: templates.map((t) => t.name),
+    groups: unique(templates.flatMap((t) => t.groups ?? [])),
+    apps: [...apps.values()],
+    bundles: unique(templates.flatMap((t) => t.bundles ?? [])),
+    adminRoles: unique(templates.flatMap((t) => (t.adminRole ? [t.adminRole] : []))),
+  };
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/** Case-insensitive match supporting `*` wildcards. */
+function matchesWildcard(value: string, pattern: string): boolean {
+  const regex = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}$`, "i").test(value);
+}
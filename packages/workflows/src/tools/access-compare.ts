@@ -0,0 +1,251 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { IgaClient, OktaClient } from "@okta-mcp/core";
+import { collectUserAccess, type UserAccess } from "../access.js";
+import { grantItems, type GrantItem } from "../grants.js";
+
+/** One piece of access held by only one of the two users, keyed as `kind:id`. */
+interface AccessItem {
+  key: string;
+  kind: GrantItem["kind"];
+  id: string;
+  name?: string;
+  /** App-user profile, for app assignments */
+  profile?: Record<string, unknown>;
+  /** Set on missing items that okta_copy_user_access will not grant, with the reason */
+  notGrantable?: string;
+}
+
+/**
+ * App-user attributes that identify the user; copying them from the
+ * reference would give the target's app account the reference's identity.
+ */
+const IDENTITY_ATTRIBUTES = new Set([
+  "userName", "email", "firstName", "lastName", "displayName", "name", "givenName", "familyName",
+  "middleName", "nickName", "login", "employeeNumber", "externalId", "mobilePhone", "secondEmail",
+]);
+
+interface AccessComparison {
+  reference: { id: string; login: unknown };
+  target: { id: string; login: unknown };
+  /** Held by the reference user and not by the target */
+  missing: AccessItem[];
+  /** Held by the target user and not by the reference */
+  excess: AccessItem[];
+  /** Apps both users have, with the app-user profile attributes that differ */
+  appProfileDifferences: Array<{
+    appId: string;
+    label: string;
+    differences: Record<string, { reference: unknown; target: unknown }>;
+  }>;
+  warnings: string[];
+}
+
+/** A comparison plus the target user's Okta profile, which is not part of the report. */
+interface ComparisonResult {
+  comparison: AccessComparison;
+  targetProfile: Record<string, unknown>;
+}
+
+export function registerAccessCompareTools(
+  server: McpServer,
+  client: OktaClient,
+  iga: IgaClient
+): void {
+  const inputShape = {
+    referenceUserId: z
+      .string()
+      .describe("Okta user ID or login of the user whose access is the model (\"Alice\")"),
+    targetUserId: z
+      .string()
+      .describe("Okta user ID or login of the user to compare (\"Bob\")"),
+  };
+
+  server.tool(
+    "okta_get_access_comparison",
+    "Compare two users' access: groups, app assignments, admin roles and IGA entitlements and bundles. Returns what the target lacks compared to the reference user, what the target has in excess, and the app-user profile attributes that differ on apps both hold. Each item has a key; use okta_copy_user_access to grant the missing ones.",
+    inputShape,
+    async ({ referenceUserId, targetUserId }) => {
+      const { comparison } = await compareUsers(client, iga, referenceUserId, targetUserId);
+      return {
+        content: [{ type: "text", text: JSON.stringify(comparison, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_copy_user_access",
+    "Give a target user the access a reference user has and they lack (\"same access as my teammate\"). Grants missing groups, direct app assignments, IGA entitlements and bundles; apps the reference gets through a group follow the group. Admin roles are skipped unless includeAdminRoles is set. App-user profiles are left to the app's mappings, except attributes listed in appProfileAttributes, which are copied from the reference user; identity attributes (userName, email, names…) and attributes the target's Okta profile supplies are never copied. Excess access is never removed. Run okta_get_access_comparison first to review the difference.",
+    {
+      ...inputShape,
+      approve: z
+        .array(z.string())
+        .optional()
+        .describe("Keys of the missing items to grant, e.g. [\"group:00g1abc\"] (default: every grantable item)"),
+      includeAdminRoles: z
+        .boolean()
+        .optional()
+        .describe("Also grant the reference user's directly assigned admin roles (default false)"),
+      appProfileAttributes: z
+        .array(z.string())
+        .optional()
+        .describe("App-user profile attributes to copy from the reference user onto new app assignments, e.g. [\"role\", \"licenseType\"] (default none)"),
+    },
+    async ({ referenceUserId, targetUserId, approve, includeAdminRoles, appProfileAttributes }) => {
+      const { comparison, targetProfile } = await compareUsers(client, iga, referenceUserId, targetUserId);
+      // Only non-identity attributes the caller asked for, and none the target's own profile maps in
+      const copyable = (appProfileAttributes ?? []).filter(
+        (name) => !IDENTITY_ATTRIBUTES.has(name) && !(name in targetProfile)
+      );
+      const appProfile = (profile: Record<string, unknown> | undefined) => {
+        const copied = Object.fromEntries(
+          copyable.filter((name) => profile?.[name] !== undefined).map((name) => [name, profile![name]])
+        );
+        return Object.keys(copied).length > 0 ? copied : undefined;
+      };
+
+      const missingKeys = new Set(comparison.missing.map((item) => item.key));
+      const unknown = (approve ?? []).filter((key) => !missingKeys.has(key));
+      if (unknown.length > 0) {
+        throw new Error(
+          `Not missing from the target user: ${unknown.join(", ")}. Run okta_get_access_comparison to see the missing items.`
+        );
+      }
+
+      const toGrant: GrantItem[] = [];
+      const skipped: Array<{ key: string; reason: string }> = [];
+      for (const item of comparison.missing) {
+        if (approve && !approve.includes(item.key)) {
+          skipped.push({ key: item.key, reason: "not approved" });
+        } else if (item.notGrantable) {
+          skipped.push({ key: item.key, reason: item.notGrantable });
+        } else if (item.kind === "adminRole" && !includeAdminRoles) {
+          skipped.push({ key: item.key, reason: "admin roles need includeAdminRoles" });
+        } else {
+          const profile = item.kind === "app" ? appProfile(item.profile) : undefined;
+          toGrant.push({ kind: item.kind, id: item.id, ...(profile ? { profile } : {}) });
+        }
+      }
+      const granted = await grantItems(client, iga, comparison.target.id, toGrant);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                reference: comparison.reference,
+                target: comparison.target,
+                granted: granted.filter((r) => r.status === "done").length,
+                failed: granted.filter((r) => r.status === "failed").length,
+                results: granted,
+                skipped,
+                ...(copyable.length < (appProfileAttributes ?? []).length
+                  ? {
+                      appProfileAttributesNotCopied: (appProfileAttributes ?? []).filter((name) => !copyable.includes(name)),
+                    }
+                  : {}),
+                excess: comparison.excess,
+                warnings: comparison.warnings,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+}
+
+async function compareUsers(
+  client: OktaClient,
+  iga: IgaClient,
+  referenceUserId: string,
+  targetUserId: string
+): Promise<ComparisonResult> {
+  const [reference, target] = await Promise.all([
+    collectUserAccess(client, iga, referenceUserId, { resolveAppScope: true }),
+    collectUserAccess(client, iga, targetUserId, { resolveAppScope: true }),
+  ]);
+  if (reference.user.id === target.user.id) {
+    throw new Error("The reference and target are the same user.");
+  }
+
+  const referenceItems = accessItems(reference);
+  const targetItems = accessItems(target);
+
+  const targetApps = new Map(target.apps.map((app) => [app.appId, app]));
+  const appProfileDifferences: AccessComparison["appProfileDifferences"] = [];
+  for (const app of reference.apps) {
+    const other = targetApps.get(app.appId);
+    if (!other) continue;
+    const differences: Record<string, { reference: unknown; target: unknown }> = {};
+    const attributes = new Set([
+      ...Object.keys(app.appUserProfile ?? {}),
+      ...Object.keys(other.appUserProfile ?? {}),
+    ]);
+    for (const attribute of attributes) {
+      const before = app.appUserProfile?.[attribute];
+      const after = other.appUserProfile?.[attribute];
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        differences[attribute] = { reference: before, target: after };
+      }
+    }
+    if (Object.keys(differences).length > 0) {
+      appProfileDifferences.push({ appId: app.appId, label: app.label, differences });
+    }
+  }
+
+  const comparison: AccessComparison = {
+    reference: { id: reference.user.id, login: reference.user.profile.login },
+    target: { id: target.user.id, login: target.user.profile.login },
+    missing: [...referenceItems.values()].filter((item) => !targetItems.has(item.key)),
+    excess: [...targetItems.values()]
+      .filter((item) => !referenceItems.has(item.key))
+      .map(({ notGrantable: _, profile: __, ...item }) => item),
+    appProfileDifferences,
+    warnings: [
+      ...reference.warnings.map((w) => `reference: ${w}`),
+      ...target.warnings.map((w) => `target: ${w}`),
+    ],
+  };
+  return { comparison, targetProfile: target.user.profile };
+}
+
+/**
+ * Flattens a user's access into items keyed as `kind:id`, marking the
+ * ones that can't be granted directly.
+ */
+function accessItems(access: UserAccess): Map<string, AccessItem> {
+  const items = new Map<string, AccessItem>();
+  const add = (kind: GrantItem["kind"], id: string, name?: string, notGrantable?: string, profile?: Record<string, unknown>) =>
+    items.set(`${kind}:${id}`, {
+      key: `${kind}:${id}`,
+      kind,
+      id,
+      ...(name ? { name } : {}),
+      ...(profile ? { profile } : {}),
+      ...(notGrantable ? { notGrantable } : {}),
+    });
+
+  for (const group of access.groups) {
+    add("group", group.id, group.profile.name,
+      group.type === "OKTA_GROUP" ? undefined : `${group.type} membership is managed by its source`);
+  }
+  for (const app of access.apps) {
+    add("app", app.appId, app.label,
+      app.scope === "GROUP" ? "assigned through a group; grant the group instead" : undefined, app.appUserProfile);
+  }
+  for (const role of access.adminRoles) {
+    add("adminRole", role.type, role.label,
+      role.assignmentType === "GROUP" ? "assigned through a group; grant the group instead" : undefined);
+  }
+  for (const bundle of access.bundles) {
+    add("bundle", bundle.id, bundle.name);
+  }
+  for (const entitlement of access.entitlements) {
+    add("entitlement", entitlement.id, entitlement.name);
+  }
+  return items;
+}
@@ -0,0 +1,122 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { IgaClient, OktaClient } from "@okta-mcp/core";
+import { collectUserAccess, type UserAccess } from "../access.js";
+
+export function registerAccessProfileTools(
+  server: McpServer,
+  client: OktaClient,
+  iga: IgaClient
+): void {
+  server.tool(
+    "okta_get_user_access_profile",
+    "Get everything a user can access in one call: groups, app assignments, admin roles, MFA factors, IGA entitlements and bundles, and registered devices. Each app assignment is attributed to a direct (USER) or group-based (GROUP) grant, with the user's groups that grant it. Returns JSON, or a readable summary for access reviews.",
+    {
+      userId: z.string().describe("Okta user ID or login"),
+      format: z
+        .enum(["json", "summary"])
+        .optional()
+        .describe("json (default) for the full objects, summary for a readable text report"),
+    },
+    async ({ userId, format }) => {
+      const access = await collectUserAccess(client, iga, userId, {
+        resolveAppGroups: true,
+        devices: true,
+      });
+      const text = format === "summary"
+        ? formatSummary(access)
+        : JSON.stringify(toProfile(access), null, 2);
+      return {
+        content: [{ type: "text", text }],
+      };
+    }
+  );
+}
+
+/** Trims each source to the fields that matter for an access review. */
+function toProfile(access: UserAccess) {
+  const { user } = access;
+  return {
+    user: {
+      id: user.id,
+      login: user.profile.login,
+      name: [user.profile.firstName, user.profile.lastName].filter(Boolean).join(" "),
+      status: user.status,
+      lastLogin: user.lastLogin ?? null,
+    },
+    groups: access.groups.map((g) => ({ id: g.id, name: g.profile.name, type: g.type })),
+    apps: access.apps.map((a) => ({
+      id: a.appId,
+      name: a.appName,
+      label: a.label,
+      assignment: a.scope === "GROUP" ? "group" : a.scope === "USER" ? "direct" : "unknown",
+      ...(a.viaGroups ? { viaGroups: a.viaGroups } : {}),
+    })),
+    adminRoles: access.adminRoles.map((r) => ({
+      id: r.id,
+      type: r.type,
+      label: r.label,
+      assignment: r.assignmentType,
+    })),
+    factors: access.factors.map((f) => ({
+      id: f.id,
+      type: f.factorType,
+      provider: f.provider,
+      status: f.status,
+    })),
+    entitlements: access.entitlements,
+    bundles: access.bundles.map((b) => ({ id: b.id, name: b.name, status: b.status })),
+    devices: access.devices,
+    warnings: access.warnings,
+  };
+}
+
+function formatSummary(access: UserAccess): string {
+  const profile = toProfile(access);
+  const { user } = profile;
+  const lines: string[] = [
+    `${user.name || user.login} (${user.login}, ${user.id})`,
+    `Status: ${user.status}; last login: ${user.lastLogin ?? "never"}`,
+  ];
+
+  const section = (title: string, items: string[]) => {
+    lines.push("", `${title} (${items.length})`);
+    lines.push(...(items.length > 0 ? items.map((item) => `  - ${item}`) : ["  none"]));
+  };
+
+  section("Groups", profile.groups.map((g) => `${g.name} [${g.type}]`));
+  section(
+    "Apps",
+    profile.apps.map((a) => {
+      const via = a.viaGroups?.length ? ` via ${a.viaGroups.map((g) => g.name).join(", ")}` : "";
+      return `${a.label} — ${a.assignment}${via}`;
+    })
+  );
+  section(
+    "Admin roles",
+    profile.adminRoles.map((r) => `${r.label ?? r.type}${r.assignment === "GROUP" ? " (via group)" : ""}`)
+  );
+  section("MFA factors", profile.factors.map((f) => `${f.type} (${f.provider}) — ${f.status}`));
+  section(
+    "IGA entitlements",
+    profile.entitlements.map((e) => (e.app?.label ? `${e.name} on ${e.app.label}` : e.name))
+  );
+  section("IGA bundles", profile.bundles.map((b) => b.name));
+  section(
+    "Devices",
+    profile.devices.map((d) => {
+      // /users/{id}/devices wraps each device as { created, device }
+      const device = (d.device ?? d) as {
+        id?: string;
+        status?: string;
+        profile?: { displayName?: string; platform?: string };
+      };
+      return `${device.profile?.displayName ?? device.id} (${device.profile?.platform ?? "unknown platform"}) — ${device.status ?? "unknown"}`;
+    })
+  );
+
+  if (profile.warnings.length > 0) {
+    section("Could not read", profile.warnings);
+  }
+  return lines.join("\n");
+}
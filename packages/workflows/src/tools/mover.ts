@@ -0,0 +1,204 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { IgaClient, OktaClient, checkProfileUpdate } from "@okta-mcp/core";
+import { collectUserAccess, type UserAccess } from "../access.js";
+import { grantItems, revokeItems, toGrantItems, type GrantItem } from "../grants.js";
+import { loadTemplates, matchTemplates, mergeGrants, type OnboardingTemplate } from "../templates.js";
+
+/** A grant in the mover diff, keyed as `kind:id` for approval. */
+interface DiffItem extends GrantItem {
+  key: string;
+  /** Why the item is in its bucket, when it isn't obvious */
+  note?: string;
+}
+
+interface MoverPlan {
+  user: { id: string; login: unknown };
+  profileChanges: Record<string, { before: unknown; after: unknown }>;
+  oldTemplates: string[];
+  newTemplates: string[];
+  /** Granted by the new templates and missing today */
+  add: DiffItem[];
+  /** Granted by the old templates only, and held today */
+  remove: DiffItem[];
+  /** Held today but granted by no template — left alone */
+  exceptions: DiffItem[];
+  warnings: string[];
+}
+
+export function registerMoverTools(
+  server: McpServer,
+  client: OktaClient,
+  iga: IgaClient
+): void {
+  const inputShape = {
+    userId: z.string().describe("Okta user ID or login of the user changing role"),
+    newProfile: z
+      .record(z.unknown())
+      .describe("Profile attributes that change, e.g. { department: \"Sales\", title: \"Account Executive\" }"),
+    templatesFile: z
+      .string()
+      .optional()
+      .describe("Path to a JSON or YAML template file inside the server's data directory (default: OKTA_ONBOARDING_TEMPLATES)"),
+  };
+
+  server.tool(
+    "okta_get_mover_plan",
+    "Compute the access changes for a user changing department, title or other role attributes, without changing anything. Compares the onboarding templates matching the current profile with those matching the new one and returns grants to add, grants to remove, and exceptions: access the user holds that no template grants. Each item has a key; pass the approved keys to okta_move_user.",
+    inputShape,
+    async ({ userId, newProfile, templatesFile }) => {
+      const templates = loadTemplates(templatesFile);
+      const access = await collectUserAccess(client, iga, userId, { resolveAppScope: true });
+      const plan = buildMoverPlan(templates, access, newProfile);
+      const problems = await checkProfileUpdate(client, access.user, newProfile);
+      plan.warnings.push(...problems.map((problem) => `profile update: ${problem}`));
+      return {
+        content: [{ type: "text", text: JSON.stringify(plan, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_move_user",
+    "Apply a role change: check the new attributes against the user schema and the profile source, update the user's profile, then grant the approved additions and revoke the approved removals from the mover plan. Additions run before removals so the user is never left without access in between. Exceptions are never removed. Run okta_get_mover_plan first and pass the keys you approve.",
+    {
+      ...inputShape,
+      approve: z
+        .array(z.string())
+        .optional()
+        .describe("Keys of the add/remove items to apply, e.g. [\"group:00g1abc\", \"app:0oa2def\"]"),
+      approveAll: z
+        .boolean()
+        .optional()
+        .describe("Apply every add and remove item in the plan"),
+      updateProfile: z
+        .boolean()
+        .optional()
+        .describe("Update the user's profile with newProfile (default true)"),
+    },
+    async ({ userId, newProfile, templatesFile, approve, approveAll, updateProfile }) => {
+      const templates = loadTemplates(templatesFile);
+      const access = await collectUserAccess(client, iga, userId, { resolveAppScope: true });
+      const plan = buildMoverPlan(templates, access, newProfile);
+
+      const planned = new Set([...plan.add, ...plan.remove].map((item) => item.key));
+      const unknown = (approve ?? []).filter((key) => !planned.has(key));
+      if (unknown.length > 0) {
+        throw new Error(
+          `Not in the mover plan: ${unknown.join(", ")}. Only add and remove items can be approved; run okta_get_mover_plan to see them.`
+        );
+      }
+      const approved = (item: DiffItem) => approveAll === true || (approve ?? []).includes(item.key);
+
+      let profileUpdated = false;
+      if (updateProfile ?? true) {
+        // Refuse an invalid profile before any access changes, not halfway through
+        const problems = await checkProfileUpdate(client, access.user, newProfile);
+        if (problems.length > 0) {
+          throw new Error(`Cannot update user ${userId}: ${problems.join("; ")}. Nothing was changed.`);
+        }
+        await client.post(`/users/${encodeURIComponent(access.user.id)}`, { profile: newProfile });
+        profileUpdated = true;
+      }
+      const added = await grantItems(client, iga, access.user.id, plan.add.filter(approved));
+      const removed = await revokeItems(client, iga, access.user.id, plan.remove.filter(approved));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                user: plan.user,
+                profileUpdated,
+                profileChanges: plan.profileChanges,
+                added,
+                removed,
+                notApproved: [...plan.add, ...plan.remove].filter((item) => !approved(item)).map((item) => item.key),
+                exceptions: plan.exceptions,
+                warnings: plan.warnings,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+}
+
+/**
+ * Diffs template grants for the old and new profile against what the
+ * user holds today. Only direct app assignments and directly assigned
+ * admin roles count as held: group-based ones follow group changes.
+ */
+function buildMoverPlan(
+  templates: OnboardingTemplate[],
+  access: UserAccess,
+  newProfile: Record<string, unknown>
+): MoverPlan {
+  const oldProfile = access.user.profile;
+  const oldGrants = mergeGrants(matchTemplates(templates, oldProfile));
+  const newGrants = mergeGrants(matchTemplates(templates, { ...oldProfile, ...newProfile }));
+
+  const held = new Map<string, DiffItem>();
+  const hold = (item: GrantItem) => held.set(keyOf(item), { ...item, key: keyOf(item) });
+  access.groups.filter((g) => g.type === "OKTA_GROUP").forEach((g) => hold({ kind: "group", id: g.id }));
+  access.apps.filter((a) => a.scope !== "GROUP").forEach((a) => hold({ kind: "app", id: a.appId, profile: a.appUserProfile }));
+  access.bundles.forEach((b) => hold({ kind: "bundle", id: b.id }));
+  access.adminRoles.filter((r) => r.assignmentType !== "GROUP").forEach((r) => hold({ kind: "adminRole", id: r.type }));
+
+  const oldItems = new Map(toGrantItems(oldGrants).map((item) => [keyOf(item), item]));
+  const newItems = new Map(toGrantItems(newGrants).map((item) => [keyOf(item), item]));
+
+  const add: DiffItem[] = [];
+  for (const [key, item] of newItems) {
+    const current = held.get(key);
+    if (!current) {
+      add.push({ ...item, key });
+    } else if (item.kind === "app" && item.profile && !profileIncludes(current.profile, item.profile)) {
+      add.push({ ...item, key, note: "already assigned; app-user profile changes" });
+    }
+  }
+
+  const remove = [...oldItems.keys()]
+    .filter((key) => !newItems.has(key) && held.has(key))
+    .map((key) => held.get(key)!);
+
+  const exceptions = [...held.values()]
+    .filter((item) => !oldItems.has(item.key) && !newItems.has(item.key))
+    .map((item) => ({ ...item, profile: undefined }));
+
+  const profileChanges: MoverPlan["profileChanges"] = {};
+  for (const [attribute, after] of Object.entries(newProfile)) {
+    if (JSON.stringify(oldProfile[attribute]) !== JSON.stringify(after)) {
+      profileChanges[attribute] = { before: oldProfile[attribute], after };
+    }
+  }
+
+  return {
+    user: { id: access.user.id, login: oldProfile.login },
+    profileChanges,
+    oldTemplates: oldGrants.templates,
+    newTemplates: newGrants.templates,
+    add,
+    remove,
+    exceptions,
+    warnings: access.warnings,
+  };
+}
+
+function keyOf(item: GrantItem): string {
+  return `${item.kind}:${item.id}`;
+}
+
+/** Whether every value in `expected` is already set in `actual`. */
+function profileIncludes(
+  actual: Record<string, unknown> | undefined,
+  expected: Record<string, unknown>
+): boolean {
+  return Object.entries(expected).every(
+    ([name, value]) => JSON.stringify(actual?.[name]) === JSON.stringify(value)
+  );
+}
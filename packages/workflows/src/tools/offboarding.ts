@@ -0,0 +1,328 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { IgaClient, OktaClient, describeToolError } from "@okta-mcp/core";
+import { collectUserAccess, type UserAccess } from "../access.js";
+
+/** Offboarding steps, in the order they run. */
+const STEP_NAMES = [
+  "suspend",
+  "revoke_sessions",
+  "revoke_oauth_grants",
+  "remove_admin_roles",
+  "reset_factors",
+  "transfer_app_ownership",
+  "revoke_iga_access",
+  "remove_app_assignments",
+  "remove_groups",
+  "deactivate",
+] as const;
+
+type StepName = (typeof STEP_NAMES)[number];
+
+/** Something a step acts on: a role, a factor, an app, a group… */
+interface StepTarget {
+  id: string;
+  label: string;
+  /** Kind of IGA grant, for targets of revoke_iga_access */
+  kind?: "entitlements" | "bundles";
+  /** Set when the target is listed but won't be acted on, with the reason */
+  skip?: string;
+}
+
+interface OffboardingOptions {
+  finalState: "suspended" | "deprovisioned";
+  transferAppOwnershipTo?: string;
+  ownedAppIds?: string[];
+}
+
+interface StepDefinition {
+  name: StepName;
+  description: string;
+  targets(access: UserAccess, options: OffboardingOptions): StepTarget[];
+  run(target: StepTarget, access: UserAccess, options: OffboardingOptions): Promise<void>;
+}
+
+interface StepReport {
+  step: StepName;
+  description: string;
+  status: "done" | "partial" | "failed" | "skipped" | "nothing to do";
+  actions: Array<{ target: string; status: "done" | "failed" | "skipped"; detail?: string }>;
+}
+
+export function registerOffboardingTools(
+  server: McpServer,
+  client: OktaClient,
+  iga: IgaClient
+): void {
+  const steps = defineSteps(client, iga);
+
+  const optionsShape = {
+    userId: z.string().describe("Okta user ID or login of the user to offboard"),
+    finalState: z
+      .enum(["suspended", "deprovisioned"])
+      .optional()
+      .describe("Leave the user SUSPENDED (reversible, e.g. for a leave of absence or legal hold) or DEPROVISIONED (default)"),
+    transferAppOwnershipTo: z
+      .string()
+      .optional()
+      .describe("User ID that becomes the IGA resource owner of the apps in ownedAppIds"),
+    ownedAppIds: z
+      .array(z.string())
+      .optional()
+      .describe("IDs of the apps the departing user owns; required for the transfer_app_ownership step"),
+  };
+
+  server.tool(
+    "okta_get_offboarding_plan",
+    "Build an offboarding plan for a user without changing anything. Reads the user's groups, apps, admin roles, factors, OAuth grants and IGA entitlements and bundles, and lists each step okta_offboard_user would run, in order, with the objects it would act on. Review the plan, then pass the chosen steps to okta_offboard_user.",
+    optionsShape,
+    async ({ userId, finalState, transferAppOwnershipTo, ownedAppIds }) => {
+      const options = { finalState: finalState ?? "deprovisioned", transferAppOwnershipTo, ownedAppIds };
+      const access = await collectUserAccess(client, iga, userId, { resolveAppScope: true });
+      const plan = steps
+        .filter((step) => step.name !== "deactivate" || options.finalState === "deprovisioned")
+        .map((step) => ({
+          step: step.name,
+          description: step.description,
+          targets: step.targets(access, options),
+        }));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                user: { id: access.user.id, login: access.user.profile.login, status: access.user.status },
+                finalState: options.finalState,
+                steps: plan,
+                warnings: access.warnings,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_offboard_user",
+    "Offboard a user by running the chosen steps in a safe order: suspend, revoke sessions and OAuth grants, remove admin roles, reset factors, transfer app ownership, revoke IGA entitlements and bundles, remove direct app assignments, remove group memberships, and finally deactivate (unless finalState is suspended). A failed action does not stop later steps. Returns a per-step report suitable for attaching to the HR ticket. Run okta_get_offboarding_plan first to review what will change.",
+    {
+      ...optionsShape,
+      steps: z
+        .array(z.enum(STEP_NAMES))
+        .optional()
+        .describe("Steps to run (default: all). They always run in the safe order above, whatever order they are listed in."),
+    },
+    async ({ userId, finalState, transferAppOwnershipTo, ownedAppIds, steps: selected }) => {
+      const options: OffboardingOptions = {
+        finalState: finalState ?? "deprovisioned",
+        transferAppOwnershipTo,
+        ownedAppIds,
+      };
+      if (options.finalState === "suspended" && selected?.includes("deactivate")) {
+        throw new Error("The deactivate step conflicts with finalState \"suspended\"; choose one.");
+      }
+      if (selected?.includes("transfer_app_ownership") && !(transferAppOwnershipTo && ownedAppIds?.length)) {
+        throw new Error("transfer_app_ownership needs transferAppOwnershipTo and ownedAppIds.");
+      }
+
+      const access = await collectUserAccess(client, iga, userId, { resolveAppScope: true });
+      const chosen = new Set<StepName>(selected ?? STEP_NAMES);
+      if (options.finalState === "suspended") chosen.delete("deactivate");
+
+      const report: StepReport[] = [];
+      for (const step of steps) {
+        const entry: StepReport = { step: step.name, description: step.description, status: "skipped", actions: [] };
+        report.push(entry);
+        if (!chosen.has(step.name)) continue;
+
+        const targets = step.targets(access, options);
+        for (const target of targets) {
+          const name = `${target.label} (${target.id})`;
+          if (target.skip) {
+            entry.actions.push({ target: name, status: "skipped", detail: target.skip });
+            continue;
+          }
+          try {
+            await step.run(target, access, options);
+            entry.actions.push({ target: name, status: "done" });
+          } catch (err: unknown) {
+            entry.actions.push({ target: name, status: "failed", detail: describeToolError(err).summary });
+          }
+        }
+        entry.status = stepStatus(entry.actions);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                user: { id: access.user.id, login: access.user.profile.login },
+                finalState: options.finalState,
+                completedAt: new Date().toISOString(),
+                steps: report,
+                warnings: access.warnings,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+}
+
+/**
+ * The offboarding steps. Order matters: sign-in and tokens are cut off
+ * first so the user can't act while access is being removed, privileges
+ * go before ordinary access, and deactivation comes last because it
+ * makes the remaining objects harder to inspect.
+ */
+function defineSteps(client: OktaClient, iga: IgaClient): StepDefinition[] {
+  const userPath = (access: UserAccess) => `/users/${encodeURIComponent(access.user.id)}`;
+  const self = (access: UserAccess): StepTarget => ({
+    id: access.user.id,
+    label: String(access.user.profile.login ?? access.user.id),
+  });
+
+  return [
+    {
+      name: "suspend",
+      description: "Suspend the user so they can no longer sign in",
+      targets: (access) => [
+        access.user.status === "ACTIVE"
+          ? self(access)
+          : { ...self(access), skip: `user is ${access.user.status}; only ACTIVE users can be suspended` },
+      ],
+      run: async (_target, access) => {
+        await client.post(`${userPath(access)}/lifecycle/suspend`);
+      },
+    },
+    {
+      name: "revoke_sessions",
+      description: "End all Okta sessions and revoke OAuth access and refresh tokens (DELETE /users/{id}/sessions, sent unconditionally since Okta cannot list a user's sessions)",
+      targets: (access) => [{ ...self(access), label: "all sessions and OAuth tokens" }],
+      run: async (_target, access) => {
+        await client.delete(`${userPath(access)}/sessions`, { params: { oauthTokens: true } });
+      },
+    },
+    {
+      name: "revoke_oauth_grants",
+      description: "Revoke the user's consent grants to OAuth clients",
+      targets: (access) =>
+        access.grants.length > 0 ? [{ ...self(access), label: `${access.grants.length} grant(s)` }] : [],
+      run: async (_target, access) => {
+        await client.delete(`${userPath(access)}/grants`);
+      },
+    },
+    {
+      name: "remove_admin_roles",
+      description: "Remove admin roles assigned directly to the user",
+      targets: (access) =>
+        access.adminRoles.map((role) => ({
+          id: role.id,
+          label: role.label ?? role.type,
+          skip: role.assignmentType === "GROUP" ? "assigned through a group; removed with group memberships" : undefined,
+        })),
+      run: async (target, access) => {
+        await client.delete(`${userPath(access)}/roles/${encodeURIComponent(target.id)}`);
+      },
+    },
+    {
+      name: "reset_factors",
+      description: "Unenroll every MFA factor",
+      targets: (access) =>
+        access.factors.map((factor) => ({ id: factor.id, label: `${factor.factorType} (${factor.provider})` })),
+      run: async (target, access) => {
+        await client.delete(`${userPath(access)}/factors/${encodeURIComponent(target.id)}`);
+      },
+    },
+    {
+      name: "transfer_app_ownership",
+      description: "Make another user the IGA resource owner of the apps this user owns",
+      targets: (_access, options) =>
+        (options.ownedAppIds ?? []).map((appId) => ({
+          id: appId,
+          label: `app → ${options.transferAppOwnershipTo ?? "?"}`,
+          skip: options.transferAppOwnershipTo ? undefined : "no transferAppOwnershipTo given",
+        })),
+      run: async (target, _access, options) => {
+        const org = await client.get<{ id: string }>("/org");
+        const app = await client.get<{ name: string }>(`/apps/${encodeURIComponent(target.id)}`);
+        await iga.put("/resource-owners", {
+          principalOrns: [`orn:okta:directory:${org.data.id}:users:${options.transferAppOwnershipTo}`],
+          resourceOrns: [`orn:okta:idp:${org.data.id}:apps:${app.data.name}:${target.id}`],
+        });
+      },
+    },
+    {
+      name: "revoke_iga_access",
+      description: "Revoke IGA entitlements and entitlement bundles",
+      targets: (access) => [
+        ...access.entitlements.map((e) => ({ id: e.id, label: `entitlement ${e.name}`, kind: "entitlements" as const })),
+        ...access.bundles.map((b) => ({ id: b.id, label: `bundle ${b.name}`, kind: "bundles" as const })),
+      ],
+      run: async (target, access) => {
+        await iga.delete(`${userPath(access)}/${target.kind}/${encodeURIComponent(target.id)}`);
+      },
+    },
+    {
+      name: "remove_app_assignments",
+      description: "Remove direct app assignments, deprovisioning the user's app accounts",
+      targets: (access) =>
+        access.apps.map((app) => ({
+          id: app.appId,
+          label: app.label,
+          skip: app.scope === "GROUP" ? "assigned through a group; removed with group memberships" : undefined,
+        })),
+      run: async (target, access) => {
+        await client.delete(
+          `/apps/${encodeURIComponent(target.id)}/users/${encodeURIComponent(access.user.id)}`
+        );
+      },
+    },
+    {
+      name: "remove_groups",
+      description: "Remove the user from every Okta-mastered group",
+      targets: (access) =>
+        access.groups.map((group) => ({
+          id: group.id,
+          label: group.profile.name,
+          skip: group.type === "OKTA_GROUP" ? undefined : `${group.type} memberships are not managed in Okta`,
+        })),
+      run: async (target, access) => {
+        await client.delete(
+          `/groups/${encodeURIComponent(target.id)}/users/${encodeURIComponent(access.user.id)}`
+        );
+      },
+    },
+    {
+      name: "deactivate",
+      description: "Deactivate (deprovision) the user",
+      targets: (access) => [
+        access.user.status === "DEPROVISIONED"
+          ? { ...self(access), skip: "already DEPROVISIONED" }
+          : self(access),
+      ],
+      run: async (_target, access) => {
+        await client.post(`${userPath(access)}/lifecycle/deactivate`, undefined, {
+          params: { sendEmail: false },
+        });
+      },
+    },
+  ];
+}
+
+function stepStatus(actions: StepReport["actions"]): StepReport["status"] {
+  const ran = actions.filter((a) => a.status !== "skipped");
+  if (ran.length === 0) return "nothing to do";
+  const failed = ran.filter((a) => a.status === "failed").length;
+  if (failed === 0) return "done";
+  return failed === ran.length ? "failed" : "partial";
+}
@@ -0,0 +1,126 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { IgaClient, OktaClient, OktaUser, fetchUserAttributes, validateProfile } from "@okta-mcp/core";
+import { grantItems, toGrantItems } from "../grants.js";
+import { loadTemplates, matchTemplates, mergeGrants } from "../templates.js";
+
+export function registerOnboardingTools(
+  server: McpServer,
+  client: OktaClient,
+  iga: IgaClient
+): void {
+  server.tool(
+    "okta_list_onboarding_templates",
+    "List the onboarding templates from the template file, with their match conditions and the groups, apps, bundles and admin role each grants. Pass a profile to see which templates it matches and the merged access it would receive.",
+    {
+      profile: z
+        .record(z.unknown())
+        .optional()
+        .describe("Profile attributes to test, e.g. { department: \"Engineering\", title: \"Software Engineer\" }"),
+      templatesFile: z
+        .string()
+        .optional()
+        .describe("Path to a JSON or YAML template file inside the server's data directory (default: OKTA_ONBOARDING_TEMPLATES)"),
+    },
+    async ({ profile, templatesFile }) => {
+      const templates = loadTemplates(templatesFile);
+      const result = profile
+        ? { matched: mergeGrants(matchTemplates(templates, profile)), templates }
+        : { templates };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "okta_onboard_user",
+    "Onboard a user from the onboarding templates: create the user after checking the profile against the user schema (or take an existing STAGED/PROVISIONED one), activate them, then grant every group, app assignment (with app-user profile), IGA bundle and admin role from the templates that match their profile. Returns what was granted, per item. Use okta_list_onboarding_templates to preview the access a profile gets.",
+    {
+      userId: z
+        .string()
+        .optional()
+        .describe("ID or login of an existing user to onboard. Provide this or profile."),
+      profile: z
+        .object({
+          firstName: z.string().describe("User's first name"),
+          lastName: z.string().describe("User's last name"),
+          email: z.string().describe("User's primary email address"),
+          login: z.string().describe("User's login (usually same as email)"),
+        })
+        .passthrough()
+        .optional()
+        .describe("Profile for a new user, including the attributes templates match on (department, title, userType…). Provide this or userId."),
+      activate: z
+        .boolean()
+        .optional()
+        .describe("Activate the user if not already active (default true)"),
+      sendEmail: z
+        .boolean()
+        .optional()
+        .describe("Send the activation email when activating (default false)"),
+      templatesFile: z
+        .string()
+        .optional()
+        .describe("Path to a JSON or YAML template file inside the server's data directory (default: OKTA_ONBOARDING_TEMPLATES)"),
+    },
+    async ({ userId, profile, activate, sendEmail, templatesFile }) => {
+      if ((userId === undefined) === (profile === undefined)) {
+        throw new Error("Provide exactly one of userId (existing user) or profile (new user).");
+      }
+      // Load templates first so a bad template file fails before anything is created
+      const templates = loadTemplates(templatesFile);
+      const shouldActivate = activate ?? true;
+
+      let user: OktaUser;
+      let created = false;
+      let activated = false;
+      if (profile) {
+        const problems = validateProfile(profile, await fetchUserAttributes(client));
+        if (problems.length > 0) {
+          throw new Error(`Cannot create user ${profile.login}: ${problems.join("; ")}.`);
+        }
+        // Create STAGED, then activate, so sendEmail decides whether the activation email goes out
+        user = (await client.post<OktaUser>("/users", { profile }, { params: { activate: false } })).data;
+        created = true;
+        if (shouldActivate) {
+          await client.post(`/users/${encodeURIComponent(user.id)}/lifecycle/activate`, undefined, {
+            params: { sendEmail: sendEmail ?? false },
+          });
+          activated = true;
+        }
+      } else {
+        user = (await client.get<OktaUser>(`/users/${encodeURIComponent(userId!)}`)).data;
+        if (shouldActivate && (user.status === "STAGED" || user.status === "PROVISIONED")) {
+          const path = `/users/${encodeURIComponent(user.id)}/lifecycle/${user.status === "STAGED" ? "activate" : "reactivate"}`;
+          await client.post(path, undefined, { params: { sendEmail: sendEmail ?? false } });
+          activated = true;
+        }
+      }
+
+      const grants = mergeGrants(matchTemplates(templates, user.profile));
+      const results = await grantItems(client, iga, user.id, toGrantItems(grants));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                user: { id: user.id, login: user.profile.login },
+                created,
+                activated,
+                templates: grants.templates,
+                granted: results.filter((r) => r.status === "done").length,
+                failed: results.filter((r) => r.status === "failed").length,
+                grants: results,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+}